@@ -0,0 +1,44 @@
+import { AlertCircle, Loader2, X } from "lucide-react";
+import type { PendingAttachment } from "@/hooks/use-attachments";
+
+interface AttachmentTrayProps {
+  attachments: PendingAttachment[];
+  onRemove: (key: string) => void;
+}
+
+export function AttachmentTray({ attachments, onRemove }: AttachmentTrayProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mb-2 flex gap-2 overflow-x-auto pb-1">
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.key}
+          title={attachment.error || attachment.name}
+          className={`relative h-16 w-16 shrink-0 overflow-hidden rounded-lg ring-1 ${
+            attachment.error ? "ring-red-500/60" : "ring-zinc-700"
+          }`}
+        >
+          <img src={attachment.previewUrl} alt={attachment.name} className="h-full w-full object-cover" />
+          {!attachment.upload && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+              {attachment.error ? (
+                <AlertCircle className="h-5 w-5 text-red-400" />
+              ) : (
+                <Loader2 className="h-5 w-5 animate-spin text-white" />
+              )}
+            </div>
+          )}
+          <button
+            type="button"
+            title="Remove image"
+            onClick={() => onRemove(attachment.key)}
+            className="absolute right-0.5 top-0.5 rounded-full bg-black/70 p-0.5 text-white hover:bg-black"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
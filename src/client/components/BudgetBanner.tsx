@@ -0,0 +1,40 @@
+import { memo } from "react";
+import { AlertTriangle, Ban } from "lucide-react";
+import { formatCost } from "@/lib/format";
+import type { BudgetStatus } from "@/lib/types";
+
+const SCOPE_LABELS: Record<BudgetStatus["scope"], string> = {
+  session: "Session",
+  project: "Monthly project",
+  daily: "Daily",
+};
+
+interface BudgetBannerProps {
+  budget: BudgetStatus[];
+}
+
+// Shown above the input once any budget reaches its soft or hard limit
+export const BudgetBanner = memo(function BudgetBanner({ budget }: BudgetBannerProps) {
+  const exceeded = budget.find((status) => status.state === "exceeded");
+  const status = exceeded || budget.find((s) => s.state === "warning");
+  if (!status) return null;
+
+  const Icon = exceeded ? Ban : AlertTriangle;
+
+  return (
+    <div
+      className={`mb-2 flex items-center gap-2 rounded-xl px-3 py-2 text-xs ring-1 ${
+        exceeded
+          ? "bg-red-950/60 text-red-300 ring-red-900"
+          : "bg-amber-950/60 text-amber-300 ring-amber-900"
+      }`}
+    >
+      <Icon className="h-3.5 w-3.5 shrink-0" />
+      <span className="min-w-0 flex-1">
+        {SCOPE_LABELS[status.scope]} budget: {formatCost(status.spentUsd)}
+        {status.hardUsd !== undefined && ` of ${formatCost(status.hardUsd)}`}
+        {exceeded ? " - new messages are blocked until it is raised" : " - getting close to the limit"}
+      </span>
+    </div>
+  );
+});
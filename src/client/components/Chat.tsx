@@ -3,6 +3,20 @@ import { Markdown } from "./Markdown";
 import { ToolDisplay } from "./ToolDisplay";
 import { CommandDisplay, hasCommandTags } from "./CommandDisplay";
 import { SetupBanner } from "./SetupWizard";
+import { QueuePanel } from "./QueuePanel";
+import { UsageSheet } from "./UsageSheet";
+import { BudgetBanner } from "./BudgetBanner";
+import { PresetPicker } from "./PresetPicker";
+import { ToolProfilePicker } from "./ToolProfilePicker";
+import { RunLimitsPicker } from "./RunLimitsPicker";
+import { DirectoryChips } from "./DirectoryChips";
+import { ErrorCard, type ErrorAction } from "./ErrorCard";
+import { AttachmentTray } from "./AttachmentTray";
+import { FileMentionMenu, MentionText } from "./FileMentions";
+import { CommandPalette } from "./CommandPalette";
+import { ProjectSwitcher } from "./ProjectSwitcher";
+import { WorktreeChip } from "./WorktreeChip";
+import { SessionItem } from "./SessionItem";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
@@ -31,7 +45,6 @@ import {
   ChevronDown,
   ChevronUp,
   Brain,
-  MessageSquare,
   Plus,
   History,
   Terminal,
@@ -44,88 +57,163 @@ import {
   FileText,
   ListChecks,
   HelpCircle,
+  ListPlus,
+  Zap,
+  Paperclip,
+  GitBranch,
+  GitFork,
+  Pencil,
+  Pin,
+  ArrowUpDown,
 } from "lucide-react";
+import type { BudgetStatus, ChatError, ChatErrorCode, HealthReport, Message, Project, RunLimits, PendingPermission, QueuedMessage, RunSummary, ServerEvent, Session, SessionSort, SessionView, TurnUsage, Upload, Worktree } from "@/lib/types";
+import { formatCost, formatDuration } from "@/lib/format";
+import { useServerEvents } from "@/hooks/use-server-events";
+import { uploadImage, useAttachments } from "@/hooks/use-attachments";
+import { useFileMentions } from "@/hooks/use-file-mentions";
+import { useSlashCommands } from "@/hooks/use-slash-commands";
+import { readSseEvents, applyStreamEvent, finalizeMessages, type ClaudeStreamEvent } from "@/lib/chat-stream";
+import { apiFetch } from "@/lib/api";
 
 const MESSAGES_PER_PAGE = 20;
-
-interface ToolUse {
-  name: string;
-  input?: {
-    file_path?: string;
-    old_string?: string;
-    new_string?: string;
-    content?: string;
-    command?: string;
-    description?: string;
-    pattern?: string;
-    path?: string;
-    [key: string]: unknown;
+// How long the undo bar stays up after archiving or deleting a session
+const UNDO_TIMEOUT_MS = 6000;
+
+const SESSION_VIEWS: Array<{ view: SessionView; label: string; empty: string }> = [
+  { view: "active", label: "Sessions", empty: "No sessions yet" },
+  { view: "archived", label: "Archived", empty: "Nothing archived" },
+  { view: "trash", label: "Trash", empty: "Deleted sessions stay here for 30 days" },
+];
+
+// The sort button steps through these
+const SESSION_SORTS: Array<{ sort: SessionSort; label: string }> = [
+  { sort: "modified", label: "Recent" },
+  { sort: "created", label: "Newest" },
+  { sort: "title", label: "A-Z" },
+];
+
+type ModelAlias = "opus" | "sonnet" | "haiku";
+const MODEL_ALIASES: ModelAlias[] = ["opus", "sonnet", "haiku"];
+
+// Sessions in tree order: each fork right after its parent, one level deeper
+function sessionTree(sessions: Session[]): Array<{ session: Session; depth: number }> {
+  const ids = new Set(sessions.map((session) => session.id));
+  const rows: Array<{ session: Session; depth: number }> = [];
+  const visit = (session: Session, depth: number) => {
+    rows.push({ session, depth });
+    for (const child of sessions) {
+      if (child.parentId === session.id) visit(child, depth + 1);
+    }
   };
+  // A fork whose parent is gone (or in another project) shows at the top level
+  for (const session of sessions) {
+    if (!session.parentId || !ids.has(session.parentId)) visit(session, 0);
+  }
+  return rows;
 }
 
-interface Message {
-  role: "user" | "assistant" | "system";
-  content: string;
-  thinking?: string[];
-  toolUse?: ToolUse[];
+// An edited prompt sent again: its images, and for a new session where it was edited
+interface Resend {
+  images: Upload[];
+  forkedFrom?: { sessionId: string; messageUuid: string };
 }
 
-interface Session {
-  id: string;
-  modified: number;
-  preview: string;
+// The end of the turn before a prompt (none for the first one), and the prompt's own transcript line
+function findRewindPoint(messages: Message[], index: number) {
+  const previous = messages.slice(0, index).findLast((m) => m.role === "assistant" && m.uuid);
+  return { previousUuid: previous?.uuid, promptUuid: messages[index]?.uuid };
 }
 
-interface PendingPermission {
-  id: string;
-  sessionId: string;
-  toolName: string;
-  toolInput: Record<string, unknown>;
-  timestamp: number;
+// The bubble only has its images' URLs, so an edited prompt uploads them again
+async function reuploadImages(urls: string[]): Promise<Upload[] | { error: string }> {
+  const uploads: Upload[] = [];
+  for (const [i, url] of urls.entries()) {
+    try {
+      const blob = await (await fetch(url)).blob();
+      // Filed under the session the prompt is sent to once it starts
+      const upload = await uploadImage(new File([blob], `image-${i + 1}`, { type: blob.type }), null);
+      if ("error" in upload) return upload;
+      uploads.push(upload);
+    } catch {
+      return { error: "Failed to load the edited message's images" };
+    }
+  }
+  return uploads;
 }
 
-interface HookStatus {
-  configured: boolean;
-  globalConfigured: boolean;
-  projectConfigured: boolean;
-  hookScriptPath: string;
-  globalSettingsPath: string;
-  projectSettingsPath: string;
-  cwd: string;
+interface ChatProps {
+  projectId: string;
+  projects: Project[];
+  // Opened on mount, after switching to this session's project
+  initialSessionId: string | null;
+  onSwitchProject: (projectId: string, sessionId?: string) => void;
+  onProjectsChange: () => void;
 }
 
-export function Chat() {
+export function Chat({ projectId, projects, initialSessionId, onSwitchProject, onProjectsChange }: ChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [cwd, setCwd] = useState("");
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionView, setSessionView] = useState<SessionView>("active");
+  // Narrows and orders the sessions sheet; the tags are every tag in use
+  const [sessionFilter, setSessionFilter] = useState<{ tag: string | null; pinned: boolean; sort: SessionSort }>({
+    tag: null,
+    pinned: false,
+    sort: "modified",
+  });
+  const [sessionTags, setSessionTags] = useState<string[]>([]);
+  // The session just archived or deleted, until the undo bar times out
+  const [removedSession, setRemovedSession] = useState<{ session: Session; action: "archive" | "delete"; wasOpen: boolean } | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  // The current session's git worktree, and whether a new session should get one
+  const [worktree, setWorktree] = useState<Worktree | null>(null);
+  const [useWorktree, setUseWorktree] = useState(false);
+  // Edited prompt to send once its rewound session (null: a new one) is open
+  const [pendingResend, setPendingResend] = useState<({ sessionId: string | null; text: string } & Resend) | null>(null);
   const [currentRequestId, setCurrentRequestId] = useState<string | null>(null);
   const [sheetOpen, setSheetOpen] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [visibleCount, setVisibleCount] = useState(MESSAGES_PER_PAGE);
-  const [streamingSessionId, setStreamingSessionId] = useState<string | null>(null);
-  const [pendingPermissions, setPendingPermissions] = useState<PendingPermission[]>([]);
-  const [hookStatus, setHookStatus] = useState<HookStatus | null>(null);
-  const [selectedModel, setSelectedModel] = useState<"opus" | "sonnet" | "haiku">("sonnet");
+  const [allPermissions, setAllPermissions] = useState<PendingPermission[]>([]);
+  const [queue, setQueue] = useState<QueuedMessage[]>([]);
+  const [sessionCostUsd, setSessionCostUsd] = useState(0);
+  const [budget, setBudget] = useState<BudgetStatus[]>([]);
+  const [health, setHealth] = useState<HealthReport | null>(null);
+  const [selectedModel, setSelectedModel] = useState<ModelAlias>("sonnet");
   const [modelPopoverOpen, setModelPopoverOpen] = useState(false);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [toolProfileId, setToolProfileId] = useState<string | null>(null);
+  const [runLimits, setRunLimits] = useState<RunLimits>({});
+  const [additionalDirs, setAdditionalDirs] = useState<string[]>([]);
   const [permissionMode, setPermissionMode] = useState<"default" | "acceptEdits" | "plan" | "bypassPermissions">("default");
   const [permissionPopoverOpen, setPermissionPopoverOpen] = useState(false);
   const [questionAnswers, setQuestionAnswers] = useState<Record<string, Record<number, string>>>({});
-  const respondedPermissionsRef = useRef<Set<string>>(new Set());
   const bottomRef = useRef<HTMLDivElement>(null);
+  const resumeCheckedRef = useRef(false);
+  // Mirrors currentRequestId for socket handlers, which can't wait for a re-render
+  const currentRequestIdRef = useRef<string | null>(null);
+  // A queued run that started while we were still finishing the previous one
+  const nextRunRef = useRef<string | null>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
-  const pollingRef = useRef<number | null>(null);
-  const permissionPollingRef = useRef<number | null>(null);
-  const messageCountRef = useRef<number>(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachments = useAttachments(currentSessionId);
+  const mentions = useFileMentions(inputRef, setInput);
+  const slashCommands = useSlashCommands(inputRef, setInput);
 
   const fetchSessions = async () => {
     try {
-      const res = await fetch("/api/sessions");
+      // Every project's sessions, grouped in the sessions sheet
+      const params = new URLSearchParams({ all: "true", sort: sessionFilter.sort });
+      if (sessionView !== "active") params.set("view", sessionView);
+      if (sessionFilter.tag) params.set("tag", sessionFilter.tag);
+      if (sessionFilter.pinned) params.set("pinned", "true");
+      const res = await apiFetch(`/api/sessions?${params}`);
       const data = await res.json();
       if (data.success) {
         setSessions(data.sessions);
+        setSessionTags(data.tags);
         if (data.cwd) setCwd(data.cwd);
       }
     } catch (error) {
@@ -133,63 +221,105 @@ export function Chat() {
     }
   };
 
-  const fetchHookStatus = useCallback(async () => {
+  const fetchHealth = useCallback(async () => {
     try {
-      const res = await fetch("/api/hook-status");
+      const res = await apiFetch("/api/health");
       const data = await res.json();
       if (data.success) {
-        setHookStatus(data);
+        setHealth(data);
       }
     } catch (error) {
-      console.error("Failed to fetch hook status:", error);
+      console.error("Failed to fetch health:", error);
     }
   }, []);
 
+  // On mount, and whenever the sheet switches lists or filters
   useEffect(() => {
     fetchSessions();
-    fetchHookStatus();
-  }, [fetchHookStatus]);
+  }, [sessionView, sessionFilter]);
 
-  // Poll for pending permission requests
   useEffect(() => {
-    const pollPermissions = async () => {
-      try {
-        const res = await fetch("/api/permission-pending");
-        const data = await res.json();
-        if (data.success) {
-          // Filter out permissions we've already responded to
-          // AND filter to only show permissions for current session (or no session for new chats)
-          const filtered = data.pending.filter((p: PendingPermission) => {
-            if (respondedPermissionsRef.current.has(p.id)) return false;
-            // Show if session matches, or if we have no session yet (new chat)
-            if (!currentSessionId) return true;
-            return p.sessionId === currentSessionId;
-          });
-          setPendingPermissions(filtered);
-        }
-      } catch (err) {
-        console.error("Failed to poll permissions:", err);
-      }
-    };
+    if (!removedSession) return;
+    const timer = setTimeout(() => setRemovedSession(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [removedSession]);
 
-    // Poll every 3 seconds
-    permissionPollingRef.current = window.setInterval(pollPermissions, 3000);
-    pollPermissions();
+  useEffect(() => {
+    fetchHealth();
+    if (initialSessionId) {
+      // Picked from another project's sessions; open it rather than a running one
+      resumeCheckedRef.current = true;
+      selectSession(initialSessionId);
+    } else {
+      resumeActiveRun();
+      fetchBudget(null);
+    }
+  }, [fetchHealth]);
 
-    return () => {
-      if (permissionPollingRef.current) {
-        clearInterval(permissionPollingRef.current);
-        permissionPollingRef.current = null;
-      }
-    };
-  }, [currentSessionId]);
+  // Show permissions for the current session (or all of them for a new chat)
+  const pendingPermissions = allPermissions.filter(
+    (p) => !currentSessionId || p.sessionId === currentSessionId
+  );
 
-  const respondToPermission = async (id: string, allow: boolean) => {
-    // Mark as responded immediately to prevent re-showing
-    respondedPermissionsRef.current.add(id);
+  const handleServerEvent = (event: ServerEvent) => {
+    switch (event.type) {
+      case "permissions_snapshot":
+        setAllPermissions(event.pending);
+        break;
+      case "permission_request":
+        setAllPermissions((prev) => [
+          ...prev.filter((p) => p.id !== event.permission.id),
+          event.permission,
+        ]);
+        break;
+      case "permission_resolved":
+        setAllPermissions((prev) => prev.filter((p) => p.id !== event.id));
+        break;
+      case "run_started":
+        // A queued message (or another browser) started a run on the session we're viewing
+        if (
+          event.sessionId &&
+          event.sessionId === currentSessionId &&
+          event.requestId !== currentRequestIdRef.current
+        ) {
+          if (currentRequestIdRef.current) {
+            nextRunRef.current = event.requestId;
+          } else {
+            followStartedRun(event.requestId);
+          }
+        }
+        break;
+      case "run_finished":
+        fetchSessions();
+        break;
+      case "queue_updated":
+        if (event.sessionId === currentSessionId) {
+          setQueue(event.queue);
+        }
+        break;
+      case "session_titled":
+        setSessions((prev) =>
+          prev.map((session) => (session.id === event.sessionId ? { ...session, title: event.title } : session))
+        );
+        break;
+      case "session_message":
+        // Runs we follow are already delivered over their event stream
+        if (
+          event.sessionId === currentSessionId &&
+          event.requestId !== currentRequestIdRef.current &&
+          event.requestId !== nextRunRef.current
+        ) {
+          setMessages((prev) => applyStreamEvent(prev, event.event as ClaudeStreamEvent));
+        }
+        break;
+    }
+  };
 
-    // Remove from local state immediately
-    setPendingPermissions((prev) => prev.filter((p) => p.id !== id));
+  useServerEvents(handleServerEvent);
+
+  const respondToPermission = async (id: string, allow: boolean) => {
+    // Remove from local state immediately, the server confirms over the socket
+    setAllPermissions((prev) => prev.filter((p) => p.id !== id));
 
     // Clean up any stored answers for this question
     setQuestionAnswers((prev) => {
@@ -199,7 +329,7 @@ export function Chat() {
     });
 
     try {
-      await fetch("/api/permission-respond", {
+      await apiFetch("/api/permission-respond", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ id, allow }),
@@ -207,11 +337,6 @@ export function Chat() {
     } catch (err) {
       console.error("Failed to respond to permission:", err);
     }
-
-    // Clear from responded set after 10 seconds (cleanup)
-    setTimeout(() => {
-      respondedPermissionsRef.current.delete(id);
-    }, 10000);
   };
 
   const submitQuestionAnswer = async (permId: string, questions: Array<{ question: string }>) => {
@@ -279,67 +404,12 @@ export function Chat() {
     prevPermissionCountRef.current = pendingPermissions.length;
   }, [pendingPermissions]);
 
-  // Poll for streaming updates while loading (but not while waiting for permission)
-  useEffect(() => {
-    if (!isLoading || pendingPermissions.length > 0) {
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current);
-        pollingRef.current = null;
-      }
-      if (!isLoading) return;
-      // If waiting for permission, don't poll but don't return early
-      if (pendingPermissions.length > 0) {
-        console.log("[Polling] Paused - waiting for permission approval");
-        return;
-      }
-    }
-
-    console.log("[Polling] Starting polling, isLoading:", isLoading);
-
-    const pollSession = async () => {
-      try {
-        const sessionId = streamingSessionId || currentSessionId;
-        console.log("[Polling] Poll tick, sessionId:", sessionId);
-
-        // If no session ID, we're creating a new session - don't poll yet
-        if (!sessionId) {
-          console.log("[Polling] No session ID yet (new session being created)");
-          return;
-        }
-
-        const res = await fetch(`/api/sessions/${sessionId}`);
-        const data = await res.json();
-        console.log("[Polling] Got messages:", data.messages?.length, "baseline:", messageCountRef.current);
-        // Only update if we have MORE messages than our baseline (user message + response)
-        if (data.success && data.messages.length > messageCountRef.current) {
-          setMessages(data.messages);
-          messageCountRef.current = data.messages.length;
-        }
-      } catch (err) {
-        console.log("[Polling] Error:", err);
-      }
-    };
-
-    // Poll every 3 seconds
-    pollingRef.current = window.setInterval(pollSession, 3000);
-    // Also poll immediately
-    pollSession();
-
-    return () => {
-      console.log("[Polling] Cleanup");
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current);
-        pollingRef.current = null;
-      }
-    };
-  }, [isLoading, streamingSessionId, currentSessionId, pendingPermissions.length]);
-
   const refreshMessages = async () => {
     if (!currentSessionId || isRefreshing) return;
 
     setIsRefreshing(true);
     try {
-      const res = await fetch(`/api/sessions/${currentSessionId}`);
+      const res = await apiFetch(`/api/sessions/${currentSessionId}`);
       const data = await res.json();
       if (data.success) {
         setMessages(data.messages);
@@ -352,16 +422,48 @@ export function Chat() {
     }
   };
 
+  // Existing sessions save right away; a new session sends them with its first message
+  const updateAdditionalDirs = async (directories: string[]): Promise<string | null> => {
+    if (!currentSessionId) {
+      setAdditionalDirs(directories);
+      return null;
+    }
+    try {
+      const res = await apiFetch(`/api/sessions/${currentSessionId}/directories`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directories }),
+      });
+      const data = await res.json();
+      if (!data.success) return data.error || "Failed to save directories";
+      setAdditionalDirs(data.directories);
+      return null;
+    } catch {
+      return "Failed to connect to server";
+    }
+  };
+
+  const fetchBudget = async (sessionId: string | null) => {
+    try {
+      const res = await apiFetch(`/api/budgets${sessionId ? `?sessionId=${sessionId}` : ""}`);
+      const data = await res.json();
+      if (data.success) setBudget(data.status);
+    } catch (error) {
+      console.error("Failed to fetch budgets:", error);
+    }
+  };
+
   const startNewSession = () => {
     setMessages([]);
     setCurrentSessionId(null);
     setVisibleCount(MESSAGES_PER_PAGE);
     setSheetOpen(false);
-    messageCountRef.current = 0;
-    // Clear pending permissions from old session
-    setPendingPermissions([]);
+    setQueue([]);
+    setSessionCostUsd(0);
     setQuestionAnswers({});
-    respondedPermissionsRef.current.clear();
+    setAdditionalDirs([]);
+    setWorktree(null);
+    fetchBudget(null);
   };
 
   const selectSession = async (sessionId: string) => {
@@ -369,120 +471,504 @@ export function Chat() {
     setIsLoading(true);
     setSheetOpen(false);
     setVisibleCount(MESSAGES_PER_PAGE);
-    // Clear pending permissions from old session
-    setPendingPermissions([]);
+    setQueue([]);
+    setSessionCostUsd(0);
     setQuestionAnswers({});
-    respondedPermissionsRef.current.clear();
+
+    apiFetch(`/api/sessions/${sessionId}/queue`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setQueue(data.queue);
+      })
+      .catch((error) => console.error("Failed to load queue:", error));
+    fetchBudget(sessionId);
 
     try {
-      const res = await fetch(`/api/sessions/${sessionId}`);
+      const res = await apiFetch(`/api/sessions/${sessionId}`);
       const data = await res.json();
 
       if (data.success) {
         setMessages(data.messages);
-        messageCountRef.current = data.messages.length;
+        setSessionCostUsd(data.totalCostUsd || 0);
+        // Restore the model this session last used
+        if (MODEL_ALIASES.includes(data.model)) {
+          setSelectedModel(data.model);
+        }
+        setPresetId(data.presetId || null);
+        setAdditionalDirs(data.additionalDirs || []);
+        setWorktree(data.worktree || null);
         setTimeout(scrollToBottom, 200);
       } else {
         setMessages([]);
-        messageCountRef.current = 0;
       }
     } catch (error) {
       console.error("Failed to load session:", error);
       setMessages([]);
-      messageCountRef.current = 0;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const sendMessage = () => {
-    const trimmed = inputRef.current?.value?.trim() || "";
-    if (!trimmed || isLoading) return;
+  // Apply a run's event stream (from /api/chat or a re-attach) to the message list
+  const consumeRunStream = async (
+    body: ReadableStream<Uint8Array>,
+    isNewSession: boolean,
+    onRun?: (run: RunSummary) => void
+  ) => {
+    let result: {
+      success: boolean;
+      aborted?: boolean;
+      error?: string;
+      code?: ChatErrorCode;
+      sessionId?: string;
+      usage?: TurnUsage;
+      toolProfile?: string;
+      stopReason?: "completed" | "max_turns" | "time_limit" | "budget" | "aborted" | "error";
+    } | null = null;
+    let run: RunSummary | null = null;
+
+    for await (const { event, data } of readSseEvents(body)) {
+      if (event === "done") {
+        result = JSON.parse(data);
+        continue;
+      }
+      if (event === "run") {
+        run = JSON.parse(data);
+        if (run) onRun?.(run);
+        continue;
+      }
+      if (event !== "message") continue;
 
-    // Clear input immediately
-    if (inputRef.current) inputRef.current.value = "";
-    setInput("");
+      const streamEvent: ClaudeStreamEvent = JSON.parse(data);
+      // A new session gets its ID from the init event
+      if (isNewSession && streamEvent.type === "system" && streamEvent.session_id) {
+        setCurrentSessionId(streamEvent.session_id);
+      }
+      setMessages((prev) => applyStreamEvent(prev, streamEvent));
+    }
 
-    const requestId = Date.now().toString(36) + Math.random().toString(36).slice(2);
+    setMessages((prev) => finalizeMessages(prev));
+
+    // Show the turn's cost and tool profile on the last assistant message
+    const usage = result?.usage;
+    const toolProfile = result?.toolProfile;
+    if (usage) {
+      setSessionCostUsd((prev) => prev + usage.costUsd);
+    }
+    if (usage || toolProfile) {
+      setMessages((prev) => {
+        const index = prev.findLastIndex((m) => m.role === "assistant");
+        if (index === -1) return prev;
+        return prev.map((m, i) => (i === index ? { ...m, usage, toolProfile } : m));
+      });
+    }
+
+    // Runs stopped by one of their limits can pick up where they left off
+    if (result?.stopReason === "max_turns") {
+      addError({ code: "max_turns", message: result.error || "Turn limit reached", prompt: run?.message });
+    } else if (result?.stopReason === "time_limit") {
+      addError({ code: "time_limit", message: result.error || "Time limit reached", prompt: run?.message });
+    } else if (result?.stopReason === "budget") {
+      addError({ code: "budget_exceeded", message: result.error || "Budget reached" });
+    } else if (result?.aborted) {
+      setMessages((prev) => [
+        ...prev,
+        { role: "system", content: "Request aborted" },
+      ]);
+    } else if (!result?.success) {
+      addError({
+        code: result?.code || "unknown",
+        message: result?.error || "Unknown error",
+        prompt: run?.message,
+      });
+    }
+
+    if (result?.sessionId) {
+      setCurrentSessionId(result.sessionId);
+      if (isNewSession) fetchWorktree(result.sessionId);
+    }
+    fetchSessions();
+    // The run's cost may have pushed a budget past its limit
+    fetchBudget(result?.sessionId || currentSessionId);
+  };
+
+  const fetchWorktree = async (sessionId: string) => {
+    try {
+      const res = await apiFetch(`/api/sessions/${sessionId}/worktree`);
+      const data = await res.json();
+      if (data.success) setWorktree(data.worktree);
+    } catch (error) {
+      console.error("Failed to fetch worktree:", error);
+    }
+  };
+
+  // New session holding the current one's history up to the end of this message's turn
+  const forkAt = async (messageUuid: string): Promise<string | null> => {
+    if (!currentSessionId) return null;
+    try {
+      const res = await apiFetch(`/api/sessions/${currentSessionId}/fork`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageUuid }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        addError({ code: "unknown", message: data.error || "Failed to fork the session" });
+        return null;
+      }
+      fetchSessions();
+      return data.sessionId;
+    } catch {
+      addError({ code: "unknown", message: "Failed to connect to server" });
+      return null;
+    }
+  };
+
+  // Both stable across renders so typing doesn't re-render every bubble
+  const forkFromMessage = useCallback(
+    async (message: Message) => {
+      if (!message.uuid) return;
+      const sessionId = await forkAt(message.uuid);
+      if (sessionId) selectSession(sessionId);
+    },
+    [currentSessionId]
+  );
+
+  // Rewind to just before a prompt and send the edited text, and its images, there instead.
+  // The original session stays as it was, with the rewound one forked off it.
+  const editMessage = useCallback(
+    async (message: Message, text: string) => {
+      if (!currentSessionId) return;
+      const sourceId = currentSessionId;
+      const index = messages.indexOf(message);
+      let point = findRewindPoint(messages, index);
+      // Live prompts have no transcript uuids yet; find the same prompt in the saved transcript
+      if (!message.uuid) {
+        try {
+          const data = await (await apiFetch(`/api/sessions/${sourceId}`)).json();
+          const saved: Message[] = data.messages || [];
+          const nth = messages.slice(0, index).filter((m) => m.role === "user").length;
+          const savedIndex = saved.flatMap((m, i) => (m.role === "user" ? [i] : []))[nth];
+          if (savedIndex !== undefined) point = findRewindPoint(saved, savedIndex);
+        } catch {
+          // Fall back to what the bubbles know
+        }
+      }
+
+      const images = await reuploadImages(message.images || []);
+      if ("error" in images) {
+        addError({ code: "unknown", message: images.error });
+        return;
+      }
+
+      if (!point.previousUuid) {
+        // Editing the first prompt starts a new session, recorded as a fork of this one
+        startNewSession();
+        setPendingResend({
+          sessionId: null,
+          text,
+          images,
+          ...(point.promptUuid && { forkedFrom: { sessionId: sourceId, messageUuid: point.promptUuid } }),
+        });
+        return;
+      }
+      const sessionId = await forkAt(point.previousUuid);
+      if (!sessionId) return;
+      setPendingResend({ sessionId, text, images });
+      selectSession(sessionId);
+    },
+    [currentSessionId, messages]
+  );
+
+  const addError = (error: ChatError) => {
+    setMessages((prev) => [
+      ...finalizeMessages(prev),
+      { role: "assistant", content: `Error: ${error.message}`, error },
+    ]);
+  };
+
+  const handleErrorAction = (action: ErrorAction, error: ChatError) => {
+    if (action === "new_session") {
+      startNewSession();
+      return;
+    }
+    // The card is replaced by the new attempt
+    setMessages((prev) => prev.filter((m) => m.error !== error));
+    sendMessage(false, action === "continue" ? "Continue" : error.prompt);
+  };
+
+  const claimRun = (requestId: string) => {
+    currentRequestIdRef.current = requestId;
     setCurrentRequestId(requestId);
+    setIsLoading(true);
+  };
 
-    // Reset streaming session for new sessions
-    if (!currentSessionId) {
-      setStreamingSessionId(null);
+  const releaseRun = () => {
+    currentRequestIdRef.current = null;
+    setIsLoading(false);
+    setCurrentRequestId(null);
+
+    // The next queued message may have started before we finished this one
+    const next = nextRunRef.current;
+    nextRunRef.current = null;
+    if (next) followStartedRun(next);
+  };
+
+  // Attach to a run the server started without us (queued follow-ups)
+  const followStartedRun = async (requestId: string) => {
+    claimRun(requestId);
+    scrollToBottom();
+
+    try {
+      const res = await apiFetch(`/api/runs/${requestId}/stream`);
+      if (res.ok && res.body) {
+        await consumeRunStream(res.body, false, (run) => {
+          setMessages((prev) => [...prev, { role: "user", content: run.message }]);
+        });
+      }
+    } catch (error) {
+      console.error("Failed to follow run:", error);
+    } finally {
+      releaseRun();
+    }
+  };
+
+  // After a reload, pick up a run that is still going on the server
+  const resumeActiveRun = async () => {
+    // Only once per page load (effects run twice in StrictMode)
+    if (resumeCheckedRef.current) return;
+    resumeCheckedRef.current = true;
+
+    try {
+      const res = await apiFetch("/api/runs");
+      const data = await res.json();
+      const run: RunSummary | undefined = data.runs?.find((r: RunSummary) => r.status === "running");
+      if (!run) return;
+
+      let history: Message[] = [];
+      if (run.sessionId) {
+        setCurrentSessionId(run.sessionId);
+        const sessionRes = await apiFetch(`/api/sessions/${run.sessionId}`);
+        const sessionData = await sessionRes.json();
+        if (sessionData.success) history = sessionData.messages;
+      }
+
+      // Drop what the run has already written, the replayed events rebuild it
+      const promptIndex = history.findLastIndex(
+        (m) => m.role === "user" && m.content === run.message.trim()
+      );
+      setMessages(
+        promptIndex !== -1
+          ? history.slice(0, promptIndex + 1)
+          : [...history, { role: "user", content: run.message }]
+      );
+      claimRun(run.requestId);
+      scrollToBottom();
+
+      try {
+        const streamRes = await apiFetch(`/api/runs/${run.requestId}/stream`);
+        if (streamRes.ok && streamRes.body) {
+          await consumeRunStream(streamRes.body, !run.sessionId);
+        }
+      } finally {
+        releaseRun();
+      }
+    } catch (error) {
+      console.error("Failed to resume run:", error);
+    }
+  };
+
+  // Queue a follow-up while Claude is still working on this session
+  const queueMessage = async (message: string, interrupt: boolean, attachmentIds: string[]) => {
+    if (!currentSessionId) return;
+
+    try {
+      const res = await apiFetch(`/api/sessions/${currentSessionId}/queue`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          message,
+          permissionMode,
+          model: selectedModel,
+          presetId: presetId || "",
+          ...(toolProfileId && { toolProfileId }),
+          ...runLimits,
+          ...(attachmentIds.length > 0 && { attachments: attachmentIds }),
+          interrupt,
+        }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        console.error("Failed to queue message:", data.error);
+      }
+    } catch (error) {
+      console.error("Failed to queue message:", error);
     }
+  };
+
+  const moveQueuedMessage = async (id: string, direction: -1 | 1) => {
+    if (!currentSessionId) return;
+    const ids = queue.map((item) => item.id);
+    const from = ids.indexOf(id);
+    const to = from + direction;
+    if (from === -1 || to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to]!, ids[from]!];
+
+    try {
+      await apiFetch(`/api/sessions/${currentSessionId}/queue`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids }),
+      });
+    } catch (error) {
+      console.error("Failed to reorder queue:", error);
+    }
+  };
+
+  const cancelQueuedMessage = async (id: string) => {
+    try {
+      await apiFetch(`/api/queue/${id}`, { method: "DELETE" });
+    } catch (error) {
+      console.error("Failed to cancel queued message:", error);
+    }
+  };
+
+  const sendQueuedMessageNow = async (id: string) => {
+    try {
+      await apiFetch(`/api/queue/${id}/send-now`, { method: "POST" });
+    } catch (error) {
+      console.error("Failed to send queued message:", error);
+    }
+  };
+
+  // Send the input box, or the given text (retry/continue from an error card, or an edited prompt)
+  const sendMessage = async (interrupt = false, text?: string, resend?: Resend) => {
+    const trimmed = (text ?? inputRef.current?.value ?? "").trim();
+    // Attachments belong to the input box; retried prompts go without, edited ones bring their own
+    const images = text === undefined ? attachments.uploaded : resend?.images || [];
+    if (!trimmed && images.length === 0) return;
+    if (text === undefined && attachments.pending) return;
+    // While a run is going, follow-ups wait in the session's queue
+    if (isLoading && !currentSessionId) return;
+
+    // Clear input immediately
+    if (text === undefined) {
+      if (inputRef.current) inputRef.current.value = "";
+      setInput("");
+      attachments.clear();
+    }
+
+    const attachmentIds = images.map((image) => image.id);
+    if (isLoading) {
+      await queueMessage(trimmed, interrupt, attachmentIds);
+      return;
+    }
+
+    const requestId = Date.now().toString(36) + Math.random().toString(36).slice(2);
+    claimRun(requestId);
 
     // Add user message immediately
-    setMessages((prev) => {
-      const newMessages = [...prev, { role: "user", content: trimmed }];
-      // Track message count so polling doesn't overwrite with stale data
-      messageCountRef.current = newMessages.length;
-      return newMessages;
-    });
-    setIsLoading(true);
+    setMessages((prev) => [
+      ...prev,
+      { role: "user", content: trimmed, ...(images.length > 0 && { images: images.map((image) => image.url) }) },
+    ]);
     scrollToBottom();
 
-    fetch("/api/chat", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        message: trimmed,
-        ...(currentSessionId && { sessionId: currentSessionId }),
-        requestId,
-        permissionMode,
-      }),
-    })
-      .then((res) => res.json())
-      .then((data) => {
-        // Polling already updates messages, just handle errors
-        if (data.aborted) {
-          setMessages((prev) => [
-            ...prev,
-            { role: "system", content: "Request aborted" },
-          ]);
-        } else if (!data.success) {
+    try {
+      const res = await apiFetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          message: trimmed,
+          ...(currentSessionId && { sessionId: currentSessionId }),
+          requestId,
+          permissionMode,
+          model: selectedModel,
+          // An empty preset clears the session's preset
+          presetId: presetId || "",
+          ...(toolProfileId && { toolProfileId }),
+          ...runLimits,
+          ...(!currentSessionId && additionalDirs.length > 0 && { additionalDirs }),
+          ...(!currentSessionId && useWorktree && { worktree: true }),
+          ...(!currentSessionId && resend?.forkedFrom && { forkedFrom: resend.forkedFrom }),
+          ...(attachmentIds.length > 0 && { attachments: attachmentIds }),
+          // If another tab is already running this session, wait in its queue
+          queue: true,
+        }),
+      });
+
+      if (res.status === 202) {
+        const data = await res.json();
+        if (data.queued) {
           setMessages((prev) => [
-            ...prev,
-            { role: "assistant", content: `Error: ${data.error || "Unknown error"}` },
+            ...prev.slice(0, -1),
+            { role: "system", content: "Session is busy in another tab - message queued" },
           ]);
+          setQueue((prev) => [...prev, data.item]);
+          return;
         }
-        // Refresh sessions list and set new session if we created one
-        fetchSessions().then(async () => {
-          if (!currentSessionId && data.success) {
-            // New session was created - fetch sessions to get the new ID
-            const sessionsRes = await fetch("/api/sessions");
-            const sessionsData = await sessionsRes.json();
-            if (sessionsData.success && sessionsData.sessions.length > 0) {
-              const newSessionId = sessionsData.sessions[0].id;
-              setCurrentSessionId(newSessionId);
-              // Load the new session messages
-              const sessionRes = await fetch(`/api/sessions/${newSessionId}`);
-              const sessionData = await sessionRes.json();
-              if (sessionData.success) {
-                setMessages(sessionData.messages);
-                messageCountRef.current = sessionData.messages.length;
-              }
-            }
-          }
+      }
+
+      // Requests rejected up front come back as plain JSON
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null);
+        if (data?.budget) setBudget(data.budget);
+        addError({
+          code: data?.code || "unknown",
+          message: data?.error || `Server responded with ${res.status}`,
+          prompt: trimmed,
         });
-      })
-      .catch(() => {
-        setMessages((prev) => [
-          ...prev,
-          { role: "assistant", content: "Failed to connect to server" },
-        ]);
-      })
-      .finally(() => {
-        setIsLoading(false);
-        setCurrentRequestId(null);
-        setStreamingSessionId(null);
+        return;
+      }
+
+      await consumeRunStream(res.body, !currentSessionId);
+    } catch {
+      addError({ code: "unknown", message: "Failed to connect to server", prompt: trimmed });
+    } finally {
+      releaseRun();
+    }
+  };
+
+  useEffect(() => {
+    // Wait for the rewound session's history to load before sending into it
+    if (!pendingResend || isLoading || pendingResend.sessionId !== currentSessionId) return;
+    setPendingResend(null);
+    const { text, images, forkedFrom } = pendingResend;
+    sendMessage(false, text, { images, forkedFrom });
+  }, [pendingResend, isLoading, currentSessionId]);
+
+  const handleSessionRemoved = (session: Session, action: "archive" | "delete") => {
+    const wasOpen = session.id === currentSessionId;
+    if (wasOpen) startNewSession();
+    setRemovedSession({ session, action, wasOpen });
+  };
+
+  const undoRemoveSession = async () => {
+    if (!removedSession) return;
+    const { session, wasOpen } = removedSession;
+    setRemovedSession(null);
+    try {
+      const res = await apiFetch(`/api/sessions/${session.id}/restore`, {
+        method: "POST",
+        headers: { "X-Project-Id": session.projectId },
       });
+      const data = await res.json();
+      if (!data.success) {
+        console.error("Failed to restore session:", data.error);
+        return;
+      }
+      fetchSessions();
+      if (wasOpen) selectSession(session.id);
+    } catch (error) {
+      console.error("Failed to restore session:", error);
+    }
   };
 
   const abortRequest = async () => {
     if (!currentRequestId) return;
 
     try {
-      await fetch("/api/abort", {
+      await apiFetch("/api/abort", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ requestId: currentRequestId }),
@@ -492,22 +978,13 @@ export function Chat() {
     }
   };
 
-  const formatDate = (timestamp: number) => {
-    const date = new Date(timestamp);
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-
-    if (days === 0) {
-      return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
-    } else if (days === 1) {
-      return "Yesterday";
-    } else if (days < 7) {
-      return date.toLocaleDateString([], { weekday: "short" });
-    } else {
-      return date.toLocaleDateString([], { month: "short", day: "numeric" });
-    }
-  };
+  // The current project's sessions first, then the other projects that have any
+  const sessionGroups = [...projects]
+    .sort((a, b) => Number(b.id === projectId) - Number(a.id === projectId))
+    .map((project) => ({ project, sessions: sessions.filter((session) => session.projectId === project.id) }))
+    .filter((group) => group.project.id === projectId || group.sessions.length > 0);
+
+  const canSend = (!!input.trim() || attachments.uploaded.length > 0) && !attachments.pending;
 
   return (
     <div className="flex h-dvh w-full flex-col overflow-hidden bg-background text-sm">
@@ -535,30 +1012,93 @@ export function Chat() {
                 <Plus className="h-4 w-4" />
                 New Session
               </Button>
-              <div className="h-px bg-border" />
-              <div className="flex-1 overflow-y-auto">
-                {sessions.map((session) => (
+              <div className="mx-2 mb-2 flex gap-1 rounded-lg bg-muted/50 p-0.5">
+                {SESSION_VIEWS.map(({ view, label }) => (
                   <button
-                    key={session.id}
-                    onClick={() => selectSession(session.id)}
-                    className={`flex w-full flex-col gap-1 px-4 py-3 text-left hover:bg-muted ${
-                      currentSessionId === session.id ? "bg-muted" : ""
+                    key={view}
+                    type="button"
+                    onClick={() => setSessionView(view)}
+                    className={`flex-1 rounded-md py-1 text-xs transition-colors ${
+                      sessionView === view ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
                     }`}
                   >
-                    <span className="flex items-center gap-2">
-                      <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
-                      <span className="flex-1 truncate text-sm">
-                        {session.preview}
-                      </span>
-                    </span>
-                    <span className="pl-6 text-xs text-muted-foreground">
-                      {formatDate(session.modified)}
-                    </span>
+                    {label}
                   </button>
                 ))}
+              </div>
+              <div className="mx-2 mb-2 flex flex-wrap items-center gap-1">
+                <button
+                  type="button"
+                  title="Sort"
+                  onClick={() => {
+                    const index = SESSION_SORTS.findIndex(({ sort }) => sort === sessionFilter.sort);
+                    const next = SESSION_SORTS[(index + 1) % SESSION_SORTS.length]!;
+                    setSessionFilter({ ...sessionFilter, sort: next.sort });
+                  }}
+                  className="flex items-center gap-1 rounded-full px-2 py-0.5 text-[11px] text-muted-foreground hover:text-foreground"
+                >
+                  <ArrowUpDown className="h-3 w-3" />
+                  {SESSION_SORTS.find(({ sort }) => sort === sessionFilter.sort)?.label}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSessionFilter({ ...sessionFilter, pinned: !sessionFilter.pinned })}
+                  className={`flex items-center gap-1 rounded-full px-2 py-0.5 text-[11px] ${
+                    sessionFilter.pinned ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  <Pin className="h-3 w-3" />
+                  Pinned
+                </button>
+                {/* The selected tag stays, so the filter can be cleared once nothing uses it */}
+                {(sessionFilter.tag && !sessionTags.includes(sessionFilter.tag)
+                  ? [...sessionTags, sessionFilter.tag]
+                  : sessionTags
+                ).map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => setSessionFilter({ ...sessionFilter, tag: sessionFilter.tag === tag ? null : tag })}
+                    className={`rounded-full px-2 py-0.5 text-[11px] ${
+                      sessionFilter.tag === tag ? "bg-primary/15 text-primary" : "bg-muted/50 text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+              <div className="h-px bg-border" />
+              <div className="flex-1 overflow-y-auto">
+                {sessionGroups.map(({ project, sessions: groupSessions }) => (
+                  <div key={project.id}>
+                    {sessionGroups.length > 1 && (
+                      <p className="sticky top-0 bg-background px-4 pb-1 pt-3 text-xs font-medium text-muted-foreground">
+                        {project.name}
+                      </p>
+                    )}
+                    {sessionTree(groupSessions).map(({ session, depth }) => (
+                      <SessionItem
+                        key={session.id}
+                        session={session}
+                        depth={depth}
+                        active={currentSessionId === session.id}
+                        view={sessionView}
+                        onSelect={() =>
+                          session.projectId === projectId
+                            ? selectSession(session.id)
+                            : onSwitchProject(session.projectId, session.id)
+                        }
+                        onChange={fetchSessions}
+                        onRemoved={handleSessionRemoved}
+                      />
+                    ))}
+                  </div>
+                ))}
                 {sessions.length === 0 && (
                   <p className="p-4 text-center text-sm text-muted-foreground">
-                    No sessions yet
+                    {sessionFilter.tag || sessionFilter.pinned
+                      ? "No sessions match these filters"
+                      : SESSION_VIEWS.find(({ view }) => view === sessionView)?.empty}
                   </p>
                 )}
               </div>
@@ -571,13 +1111,36 @@ export function Chat() {
             <Bot className="h-4 w-4 text-primary-foreground" />
           </div>
           <div className="min-w-0 flex-1">
-            <h1 className="font-semibold">Claude Code</h1>
+            <ProjectSwitcher
+              projects={projects}
+              projectId={projectId}
+              onSwitch={(id) => onSwitchProject(id)}
+              onProjectsChange={onProjectsChange}
+            />
             {cwd && (
-              <p className="truncate text-xs text-muted-foreground">{cwd}</p>
+              <p className="truncate text-xs text-muted-foreground">
+                {cwd}
+                {sessionCostUsd > 0 && ` · ${formatCost(sessionCostUsd)}`}
+              </p>
             )}
+            <div className="flex min-w-0 flex-wrap items-center gap-1">
+              {currentSessionId && worktree && (
+                <WorktreeChip sessionId={currentSessionId} worktree={worktree} busy={isLoading} onChange={setWorktree} />
+              )}
+              <DirectoryChips directories={additionalDirs} onChange={updateAdditionalDirs} />
+            </div>
           </div>
         </div>
 
+        <PresetPicker presetId={presetId} onChange={setPresetId} />
+
+        <UsageSheet
+          sessionLabels={Object.fromEntries(sessions.map((s) => [s.id, s.title || s.preview]))}
+          onSelectSession={selectSession}
+          sessionId={currentSessionId}
+          onBudgetChange={setBudget}
+        />
+
         <Button
           variant="ghost"
           size="icon"
@@ -590,7 +1153,7 @@ export function Chat() {
       </header>
 
       {/* Setup Banner */}
-      <SetupBanner hookStatus={hookStatus} onConfigured={fetchHookStatus} />
+      <SetupBanner health={health} onRecheck={fetchHealth} />
 
 
       {/* Messages */}
@@ -618,9 +1181,23 @@ export function Chat() {
             </button>
           )}
 
-          {messages.slice(-visibleCount).map((msg, i) => (
-            <MessageBubble key={messages.length - visibleCount + i} message={msg} />
-          ))}
+          {messages.slice(-visibleCount).map((msg, i) =>
+            msg.error ? (
+              <ErrorCard
+                key={messages.length - visibleCount + i}
+                error={msg.error}
+                maxTurns={runLimits.maxTurns}
+                onAction={handleErrorAction}
+              />
+            ) : (
+              <MessageBubble
+                key={messages.length - visibleCount + i}
+                message={msg}
+                onFork={isLoading ? undefined : forkFromMessage}
+                onEdit={isLoading ? undefined : editMessage}
+              />
+            )
+          )}
 
           {isLoading && (
             <div className="flex items-start gap-2">
@@ -841,26 +1418,115 @@ export function Chat() {
 
       {/* Input */}
       <div className="shrink-0 px-3 pb-4 pt-3 pb-safe">
-        <div className="rounded-2xl bg-gradient-to-r from-blue-400/60 via-purple-500/60 to-violet-400/60 p-[1px]">
-          <div className="rounded-2xl bg-zinc-900 p-3">
+        <BudgetBanner budget={budget} />
+        <QueuePanel
+          queue={queue}
+          onMove={moveQueuedMessage}
+          onCancel={cancelQueuedMessage}
+          onSendNow={sendQueuedMessageNow}
+        />
+        <div className="relative rounded-2xl bg-gradient-to-r from-blue-400/60 via-purple-500/60 to-violet-400/60 p-[1px]">
+          <div
+            className="rounded-2xl bg-zinc-900 p-3"
+            onDragOver={(e) => {
+              if (e.dataTransfer.types.includes("Files")) e.preventDefault();
+            }}
+            onDrop={(e) => {
+              if (e.dataTransfer.files.length === 0) return;
+              e.preventDefault();
+              attachments.addFiles(e.dataTransfer.files);
+            }}
+          >
+            {slashCommands.open && (
+              <CommandPalette
+                commands={slashCommands.commands}
+                activeIndex={slashCommands.activeIndex}
+                onHover={slashCommands.setActiveIndex}
+                onSelect={slashCommands.select}
+              />
+            )}
+            {mentions.open && (
+              <FileMentionMenu
+                files={mentions.files}
+                activeIndex={mentions.activeIndex}
+                onHover={mentions.setActiveIndex}
+                onSelect={mentions.select}
+              />
+            )}
+            <AttachmentTray attachments={attachments.attachments} onRemove={attachments.remove} />
             {/* Input Row */}
             <div className="flex items-end gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/png,image/jpeg,image/gif,image/webp"
+                multiple
+                hidden
+                onChange={(e) => {
+                  if (e.target.files) attachments.addFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+              <button
+                type="button"
+                title="Attach images"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex h-10 w-8 shrink-0 items-center justify-center text-muted-foreground transition-colors hover:text-foreground"
+              >
+                <Paperclip className="h-4 w-4" />
+              </button>
               <Textarea
                 ref={inputRef}
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={(e) => {
+                  setInput(e.target.value);
+                  mentions.update();
+                  slashCommands.update();
+                }}
+                onSelect={() => {
+                  mentions.update();
+                  slashCommands.update();
+                }}
+                onBlur={() => {
+                  mentions.close();
+                  slashCommands.close();
+                }}
+                onPaste={(e) => {
+                  // Pasted screenshots become attachments; text pastes as usual
+                  if (attachments.addFiles(e.clipboardData.files)) e.preventDefault();
+                }}
                 onKeyDown={(e) => {
+                  if (mentions.handleKeyDown(e) || slashCommands.handleKeyDown(e)) return;
                   if (e.key === "Enter" && !e.shiftKey) {
                     e.preventDefault();
                     sendMessage();
                   }
                 }}
-                placeholder="Type a message..."
-                disabled={isLoading}
+                placeholder={isLoading ? "Queue a follow-up..." : "Type a message..."}
+                disabled={isLoading && !currentSessionId}
                 rows={1}
                 className="min-h-[40px] max-h-[120px] flex-1 resize-none border-0 bg-transparent dark:bg-transparent p-0 text-base placeholder:text-muted-foreground/50 focus-visible:ring-0 shadow-none"
               />
-              {isLoading ? (
+              {isLoading && canSend && currentSessionId ? (
+                <>
+                  <button
+                    type="button"
+                    title="Interrupt and send now"
+                    onClick={() => sendMessage(true)}
+                    className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-amber-500/80 text-white transition-colors hover:bg-amber-500 active:scale-95"
+                  >
+                    <Zap className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    title="Queue"
+                    onClick={() => sendMessage()}
+                    className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-blue-500 to-purple-600 text-white transition-all hover:from-blue-400 hover:to-purple-500 active:scale-95"
+                  >
+                    <ListPlus className="h-4 w-4" />
+                  </button>
+                </>
+              ) : isLoading ? (
                 <button
                   type="button"
                   onClick={abortRequest}
@@ -872,7 +1538,7 @@ export function Chat() {
                 <button
                   type="button"
                   onClick={() => sendMessage()}
-                  disabled={!input.trim()}
+                  disabled={!canSend}
                   className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-blue-500 to-purple-600 text-white transition-all hover:from-blue-400 hover:to-purple-500 active:scale-95 disabled:opacity-40 disabled:hover:from-blue-500 disabled:hover:to-purple-600"
                 >
                   <Send className="h-4 w-4" />
@@ -880,7 +1546,7 @@ export function Chat() {
               )}
             </div>
             {/* Bottom Row - Mode Selection */}
-            <div className="mt-3 flex items-center justify-between">
+            <div className="mt-3 flex items-center justify-between gap-1.5">
               <Popover open={permissionPopoverOpen} onOpenChange={setPermissionPopoverOpen}>
                 <PopoverTrigger asChild>
                   <button
@@ -983,6 +1649,20 @@ export function Chat() {
                   </div>
                 </PopoverContent>
               </Popover>
+              <ToolProfilePicker profileId={toolProfileId} onChange={setToolProfileId} />
+              <RunLimitsPicker limits={runLimits} onChange={setRunLimits} />
+              {!currentSessionId && (
+                <button
+                  type="button"
+                  title={useWorktree ? "New session runs in its own git worktree" : "Run the new session in its own git worktree"}
+                  onClick={() => setUseWorktree((on) => !on)}
+                  className={`flex shrink-0 items-center gap-1.5 rounded-full px-3 py-1.5 text-sm transition-colors ${
+                    useWorktree ? "bg-emerald-500/15 text-emerald-400" : "bg-muted/50 text-muted-foreground hover:bg-muted"
+                  }`}
+                >
+                  <GitBranch className="h-4 w-4" />
+                </button>
+              )}
               <Popover open={modelPopoverOpen} onOpenChange={setModelPopoverOpen}>
                 <PopoverTrigger asChild>
                   <button
@@ -1055,11 +1735,40 @@ export function Chat() {
           </div>
         </div>
       </div>
+
+      {/* Undo for the last archived or deleted session, above the sessions sheet */}
+      {removedSession && (
+        <div className="fixed bottom-24 left-1/2 z-[60] flex -translate-x-1/2 items-center gap-3 rounded-full bg-zinc-800 py-1.5 pl-4 pr-1.5 text-xs text-zinc-100 shadow-lg ring-1 ring-zinc-700">
+          <span>{removedSession.action === "archive" ? "Session archived" : "Session moved to the trash"}</span>
+          <Button size="sm" variant="secondary" className="h-7 rounded-full" onClick={undoRemoveSession}>
+            Undo
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
 
-const MessageBubble = memo(function MessageBubble({ message }: { message: Message }) {
+// "claude-sonnet-4-5-20250929" -> "Sonnet 4.5"
+const formatModelName = (model: string) => {
+  const match = model.match(/(opus|sonnet|haiku)-(\d+)(?:-(\d{1,2}))?(?:-\d{8})?$/);
+  if (!match) return model;
+  const [, family = "", major, minor] = match;
+  const name = family.charAt(0).toUpperCase() + family.slice(1);
+  return minor ? `${name} ${major}.${minor}` : `${name} ${major}`;
+};
+
+interface MessageBubbleProps {
+  message: Message;
+  // Offered on finished assistant messages of a saved session
+  onFork?: (message: Message) => void;
+  // Offered on user messages while nothing is running
+  onEdit?: (message: Message, text: string) => void;
+}
+
+const MessageBubble = memo(function MessageBubble({ message, onFork, onEdit }: MessageBubbleProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
   if (message.role === "system") {
     return (
       <div className="flex justify-center">
@@ -1072,6 +1781,7 @@ const MessageBubble = memo(function MessageBubble({ message }: { message: Messag
   }
 
   const isUser = message.role === "user";
+  const canFork = !isUser && !message.streaming && !!message.uuid && !!onFork;
 
   return (
     <div className={`flex ${isUser ? "justify-end" : "justify-start"}`}>
@@ -1105,8 +1815,56 @@ const MessageBubble = memo(function MessageBubble({ message }: { message: Messag
           </div>
         )}
 
-        {/* Content */}
-        {message.content && (
+        {/* Images */}
+        {message.images && message.images.length > 0 && (
+          <div className={`flex flex-wrap gap-1.5 ${isUser ? "justify-end" : ""}`}>
+            {message.images.map((src, ii) => (
+              <a key={ii} href={src} target="_blank" rel="noreferrer">
+                <img
+                  src={src}
+                  alt=""
+                  className="max-h-40 max-w-[12rem] rounded-xl object-cover ring-1 ring-zinc-700"
+                />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {/* Content, or the edited prompt to send in its place */}
+        {draft !== null ? (
+          <div className="flex w-full min-w-[16rem] flex-col gap-1.5">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setDraft(null);
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey) && draft.trim()) {
+                  e.preventDefault();
+                  onEdit?.(message, draft.trim());
+                  setDraft(null);
+                }
+              }}
+              className="min-h-20 rounded-2xl bg-indigo-950/60 text-sm"
+              autoFocus
+            />
+            <div className="flex justify-end gap-1.5">
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="h-7"
+                disabled={!draft.trim()}
+                onClick={() => {
+                  onEdit?.(message, draft.trim());
+                  setDraft(null);
+                }}
+              >
+                Send
+              </Button>
+            </div>
+          </div>
+        ) : message.content && (
           hasCommandTags(message.content) ? (
             <CommandDisplay content={message.content} />
           ) : (
@@ -1118,7 +1876,9 @@ const MessageBubble = memo(function MessageBubble({ message }: { message: Messag
               }`}
             >
               {isUser ? (
-                <p className="whitespace-pre-wrap">{message.content}</p>
+                <p className="whitespace-pre-wrap">
+                  <MentionText text={message.content} />
+                </p>
               ) : (
                 <div className="prose prose-sm prose-invert max-w-none [&_*]:break-words">
                   <Markdown content={message.content} />
@@ -1127,6 +1887,45 @@ const MessageBubble = memo(function MessageBubble({ message }: { message: Messag
             </div>
           )
         )}
+
+        {/* Typed prompts only; slash commands come back wrapped in command tags */}
+        {isUser && onEdit && draft === null && message.content && !hasCommandTags(message.content) && (
+          <button
+            type="button"
+            title="Edit and resend from here"
+            onClick={() => setDraft(message.content)}
+            className="flex items-center gap-1 px-1 text-[11px] text-muted-foreground/70 hover:text-foreground"
+          >
+            <Pencil className="h-3 w-3" />
+            Edit
+          </button>
+        )}
+
+        {/* Model, tool profile and turn cost */}
+        {!isUser && !message.streaming && (message.model || message.usage || message.toolProfile || canFork) && (
+          <span className="flex items-center gap-2 px-1 text-[11px] text-muted-foreground/70">
+            {[
+              message.model && formatModelName(message.model),
+              message.toolProfile,
+              message.usage && formatCost(message.usage.costUsd),
+              message.usage && `${message.usage.numTurns} ${message.usage.numTurns === 1 ? "turn" : "turns"}`,
+              message.usage && formatDuration(message.usage.durationMs),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+            {canFork && (
+              <button
+                type="button"
+                title="Branch from here"
+                onClick={() => onFork?.(message)}
+                className="flex items-center gap-1 rounded-md hover:text-foreground"
+              >
+                <GitFork className="h-3 w-3" />
+                Branch
+              </button>
+            )}
+          </span>
+        )}
       </div>
     </div>
   );
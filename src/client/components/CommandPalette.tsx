@@ -0,0 +1,52 @@
+import { Terminal } from "lucide-react";
+import type { SlashCommand } from "@/lib/types";
+
+interface CommandPaletteProps {
+  commands: SlashCommand[];
+  activeIndex: number;
+  onHover: (index: number) => void;
+  onSelect: (command: SlashCommand) => void;
+}
+
+const SOURCE_LABELS: Record<SlashCommand["source"], string> = {
+  builtin: "built-in",
+  project: "project",
+  user: "user",
+};
+
+// Commands matching the "/..." being typed, shown above the message input
+export function CommandPalette({ commands, activeIndex, onHover, onSelect }: CommandPaletteProps) {
+  return (
+    <div className="absolute inset-x-0 bottom-full z-20 mb-2 max-h-72 overflow-y-auto rounded-xl border border-zinc-800 bg-zinc-900 p-1 shadow-lg">
+      {commands.map((command, i) => (
+        <button
+          key={`${command.source}:${command.name}`}
+          type="button"
+          // Keep focus in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onHover(i)}
+          onClick={() => onSelect(command)}
+          className={`flex w-full min-w-0 items-start gap-2 rounded-md px-2.5 py-1.5 text-left ${
+            i === activeIndex ? "bg-muted" : ""
+          }`}
+        >
+          <Terminal className="mt-0.5 h-3.5 w-3.5 shrink-0 text-cyan-400" />
+          <div className="min-w-0 flex-1">
+            <div className="flex items-baseline gap-1.5 text-sm">
+              <span className="font-mono">/{command.name}</span>
+              {command.argumentHint && (
+                <span className="truncate font-mono text-xs text-muted-foreground">{command.argumentHint}</span>
+              )}
+            </div>
+            {command.description && (
+              <p className="truncate text-xs text-muted-foreground">{command.description}</p>
+            )}
+          </div>
+          <span className="shrink-0 text-[10px] text-muted-foreground">
+            {command.namespace ? `${SOURCE_LABELS[command.source]}:${command.namespace}` : SOURCE_LABELS[command.source]}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { FolderPlus, Folder, Loader2, X } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+
+interface DirectoryChipsProps {
+  // Extra directories of the current session
+  directories: string[];
+  // Resolves to an error message if the server refused the new list
+  onChange: (directories: string[]) => Promise<string | null>;
+}
+
+const baseName = (dir: string) => dir.split("/").filter(Boolean).pop() || dir;
+
+export function DirectoryChips({ directories, onChange }: DirectoryChipsProps) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [allowedRoots, setAllowedRoots] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  const fetchDirectories = async () => {
+    try {
+      const res = await apiFetch("/api/directories");
+      const data = await res.json();
+      if (data.success) {
+        setAllowedRoots(data.allowedRoots);
+        setSuggestions(data.suggestions);
+      }
+    } catch (err) {
+      console.error("Failed to fetch directories:", err);
+    }
+  };
+
+  const save = async (next: string[]) => {
+    setSaving(true);
+    setError(null);
+    const saveError = await onChange(next);
+    setSaving(false);
+    if (saveError) {
+      setError(saveError);
+      return false;
+    }
+    return true;
+  };
+
+  const addDirectory = async (dir: string) => {
+    const trimmed = dir.trim();
+    if (!trimmed || directories.includes(trimmed)) return;
+    if (await save([...directories, trimmed])) {
+      setValue("");
+      setOpen(false);
+    }
+  };
+
+  const matches = suggestions
+    .filter((dir) => !directories.includes(dir) && dir.toLowerCase().includes(value.trim().toLowerCase()))
+    .slice(0, 8);
+
+  return (
+    <div className="flex min-w-0 flex-wrap items-center gap-1">
+      {directories.map((dir) => (
+        <span
+          key={dir}
+          title={dir}
+          className="flex max-w-40 items-center gap-1 rounded-full bg-muted/60 py-0.5 pl-2 pr-1 text-[11px] text-muted-foreground"
+        >
+          <Folder className="h-3 w-3 shrink-0" />
+          <span className="truncate">{baseName(dir)}</span>
+          <button
+            type="button"
+            title="Remove directory"
+            onClick={() => save(directories.filter((d) => d !== dir))}
+            className="shrink-0 rounded-full p-0.5 hover:bg-muted hover:text-foreground"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+
+      <Popover
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          setError(null);
+          if (next) fetchDirectories();
+        }}
+      >
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            title="Add a directory"
+            className="flex items-center gap-1 rounded-full px-1.5 py-0.5 text-[11px] text-muted-foreground hover:bg-muted hover:text-foreground"
+          >
+            <FolderPlus className="h-3 w-3" />
+            {directories.length === 0 && <span>Add dir</span>}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 space-y-2 p-2">
+          <form
+            className="flex gap-1.5"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addDirectory(value);
+            }}
+          >
+            <Input
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="../shared-lib"
+              className="h-8 text-sm"
+              autoFocus
+            />
+            <Button type="submit" size="sm" className="h-8" disabled={saving || !value.trim()}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add"}
+            </Button>
+          </form>
+
+          {error && <p className="rounded-md bg-red-500/10 p-2 text-xs text-red-400">{error}</p>}
+
+          {matches.length > 0 && (
+            <div className="flex flex-col">
+              {matches.map((dir) => (
+                <button
+                  key={dir}
+                  type="button"
+                  onClick={() => addDirectory(dir)}
+                  className="flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted"
+                >
+                  <Folder className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{dir}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <p className="px-1 text-[11px] text-muted-foreground">
+            {allowedRoots.length > 0
+              ? `Allowed under ${allowedRoots.join(", ")}`
+              : "Set CLAUDE_ALLOWED_ROOTS on the server to allow extra directories"}
+          </p>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
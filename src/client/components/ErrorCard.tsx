@@ -0,0 +1,144 @@
+import { memo } from "react";
+import {
+  AlertCircle,
+  Ban,
+  Clock,
+  KeyRound,
+  Layers,
+  PackageX,
+  Play,
+  Plus,
+  RotateCcw,
+  Skull,
+  Timer,
+  Wallet,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ChatError, ChatErrorCode } from "@/lib/types";
+
+export type ErrorAction = "retry" | "continue" | "new_session";
+
+interface ErrorInfo {
+  icon: LucideIcon;
+  title: string;
+  hint: string;
+  action?: ErrorAction;
+}
+
+const ERROR_INFO: Record<ChatErrorCode, ErrorInfo> = {
+  cli_not_found: {
+    icon: PackageX,
+    title: "Claude CLI not found",
+    hint: "Install it on the server with `npm install -g @anthropic-ai/claude-code`, then retry.",
+    action: "retry",
+  },
+  not_authenticated: {
+    icon: KeyRound,
+    title: "Not logged in",
+    hint: "Run `claude` in a terminal on the server and log in with /login, then retry.",
+    action: "retry",
+  },
+  rate_limited: {
+    icon: Clock,
+    title: "Rate limited",
+    hint: "Wait a little and try again.",
+    action: "retry",
+  },
+  context_too_long: {
+    icon: Layers,
+    title: "Conversation too long",
+    hint: "Start a new session, or send /compact to summarize this one.",
+    action: "new_session",
+  },
+  max_turns: {
+    icon: Ban,
+    title: "Turn limit reached",
+    hint: "Claude stopped before it was done. Let it keep going?",
+    action: "continue",
+  },
+  time_limit: {
+    icon: Timer,
+    title: "Time limit reached",
+    hint: "Claude was stopped at the time limit before it was done. Let it keep going?",
+    action: "continue",
+  },
+  killed: {
+    icon: Skull,
+    title: "Process killed",
+    hint: "The claude process was stopped on the server, possibly for running out of memory.",
+    action: "retry",
+  },
+  session_busy: {
+    icon: Clock,
+    title: "Session busy",
+    hint: "This session is already running in another tab. Try again once it finishes.",
+    action: "retry",
+  },
+  too_many_runs: {
+    icon: Clock,
+    title: "Too many runs",
+    hint: "Other sessions are using every run slot. Try again once one finishes.",
+    action: "retry",
+  },
+  budget_exceeded: {
+    icon: Wallet,
+    title: "Budget reached",
+    hint: "Raise the limit from the usage sheet to keep going.",
+  },
+  unknown: {
+    icon: AlertCircle,
+    title: "Something went wrong",
+    hint: "",
+    action: "retry",
+  },
+};
+
+const ACTIONS: Record<ErrorAction, { icon: LucideIcon; label: string }> = {
+  retry: { icon: RotateCcw, label: "Retry" },
+  continue: { icon: Play, label: "Continue" },
+  new_session: { icon: Plus, label: "New session" },
+};
+
+interface ErrorCardProps {
+  error: ChatError;
+  // Turn limit the "continue" action will run with
+  maxTurns?: number;
+  onAction: (action: ErrorAction, error: ChatError) => void;
+}
+
+export const ErrorCard = memo(function ErrorCard({ error, maxTurns, onAction }: ErrorCardProps) {
+  const info = ERROR_INFO[error.code] || ERROR_INFO.unknown;
+  const Icon = info.icon;
+  // Retrying needs the prompt that failed
+  const action = info.action === "retry" && !error.prompt ? undefined : info.action;
+  const ActionIcon = action && ACTIONS[action].icon;
+
+  return (
+    <div className="flex justify-start">
+      <div className="flex min-w-0 max-w-[90%] gap-3 rounded-2xl bg-red-950/40 px-4 py-3 ring-1 ring-red-900/60">
+        <Icon className="mt-0.5 h-4 w-4 shrink-0 text-red-400" />
+        <div className="min-w-0 flex-1 space-y-1.5">
+          <p className="text-sm font-medium text-red-200">{info.title}</p>
+          {info.hint && <p className="text-xs text-red-200/70">{info.hint}</p>}
+          <pre className="max-h-32 overflow-y-auto whitespace-pre-wrap break-words text-[11px] text-red-300/60">
+            {error.message}
+          </pre>
+          {action && ActionIcon && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 border-red-900 bg-transparent text-xs text-red-200 hover:bg-red-900/40"
+              onClick={() => onAction(action, error)}
+            >
+              <ActionIcon className="h-3.5 w-3.5" />
+              {action === "continue" && maxTurns
+                ? `Continue for ${maxTurns} more ${maxTurns === 1 ? "turn" : "turns"}`
+                : ACTIONS[action].label}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
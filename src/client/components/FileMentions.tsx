@@ -0,0 +1,71 @@
+import { Fragment } from "react";
+import { FileText } from "lucide-react";
+
+interface FileMentionMenuProps {
+  files: string[];
+  activeIndex: number;
+  onHover: (index: number) => void;
+  onSelect: (file: string) => void;
+}
+
+const baseName = (file: string) => file.slice(file.lastIndexOf("/") + 1);
+const dirName = (file: string) => file.slice(0, file.lastIndexOf("/") + 1);
+
+// Suggestions for the "@..." being typed, shown above the message input
+export function FileMentionMenu({ files, activeIndex, onHover, onSelect }: FileMentionMenuProps) {
+  return (
+    <div className="absolute inset-x-0 bottom-full z-20 mb-2 overflow-hidden rounded-xl border border-zinc-800 bg-zinc-900 p-1 shadow-lg">
+      {files.map((file, i) => (
+        <button
+          key={file}
+          type="button"
+          // Keep focus in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onHover(i)}
+          onClick={() => onSelect(file)}
+          className={`flex w-full min-w-0 items-center gap-2 rounded-md px-2.5 py-1.5 text-left text-sm ${
+            i === activeIndex ? "bg-muted" : ""
+          }`}
+        >
+          <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          <span className="shrink-0">{baseName(file)}</span>
+          <span className="min-w-0 truncate text-xs text-muted-foreground">{dirName(file)}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// "@path" preceded by whitespace or the start of the text; e-mail addresses don't match
+const MENTION_PATTERN = /(^|\s)@([\w./-]*[\w/])/g;
+
+// Message text with @file references shown as chips
+export function MentionText({ text }: { text: string }) {
+  const parts: Array<string | { file: string }> = [];
+  let last = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const start = match.index + match[1]!.length;
+    parts.push(text.slice(last, start), { file: match[2]! });
+    last = start + 1 + match[2]!.length;
+  }
+  parts.push(text.slice(last));
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        typeof part === "string" ? (
+          <Fragment key={i}>{part}</Fragment>
+        ) : (
+          <span
+            key={i}
+            title={part.file}
+            className="mx-0.5 inline-flex max-w-full items-center gap-1 rounded-md bg-indigo-500/20 px-1.5 py-0.5 align-middle text-xs text-indigo-200"
+          >
+            <FileText className="h-3 w-3 shrink-0" />
+            <span className="truncate">{baseName(part.file.replace(/\/$/, "")) || part.file}</span>
+          </span>
+        )
+      )}
+    </>
+  );
+}
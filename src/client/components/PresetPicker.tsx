@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Check, ChevronDown, Loader2, Pencil, Plus, ScrollText, Trash2 } from "lucide-react";
+import type { PromptPreset } from "@/lib/types";
+import { apiFetch } from "@/lib/api";
+
+interface PresetPickerProps {
+  // Active preset of the current session, null for Claude's default prompt
+  presetId: string | null;
+  onChange: (presetId: string | null) => void;
+}
+
+interface PresetDraft {
+  id?: string;
+  name: string;
+  systemPrompt: string;
+  appendSystemPrompt: string;
+}
+
+const EMPTY_DRAFT: PresetDraft = { name: "", systemPrompt: "", appendSystemPrompt: "" };
+
+export function PresetPicker({ presetId, onChange }: PresetPickerProps) {
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<PresetDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPresets = async () => {
+    try {
+      const res = await apiFetch("/api/presets");
+      const data = await res.json();
+      if (data.success) setPresets(data.presets);
+    } catch (err) {
+      console.error("Failed to fetch presets:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchPresets();
+  }, []);
+
+  const active = presets.find((preset) => preset.id === presetId);
+
+  const editPreset = (preset?: PromptPreset) => {
+    setOpen(false);
+    setError(null);
+    setDraft(
+      preset
+        ? {
+            id: preset.id,
+            name: preset.name,
+            systemPrompt: preset.systemPrompt || "",
+            appendSystemPrompt: preset.appendSystemPrompt || "",
+          }
+        : EMPTY_DRAFT
+    );
+  };
+
+  const savePreset = async () => {
+    if (!draft?.name.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const { id, ...body } = draft;
+      const res = await apiFetch(id ? `/api/presets/${id}` : "/api/presets", {
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to save preset");
+        return;
+      }
+      await fetchPresets();
+      // A new preset is usually made to be used right away
+      if (!id) onChange(data.preset.id);
+      setDraft(null);
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePreset = async () => {
+    if (!draft?.id) return;
+    setSaving(true);
+    try {
+      await apiFetch(`/api/presets/${draft.id}`, { method: "DELETE" });
+      if (draft.id === presetId) onChange(null);
+      await fetchPresets();
+      setDraft(null);
+    } catch (err) {
+      console.error("Failed to delete preset:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Popover
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (next) fetchPresets();
+        }}
+      >
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            title="System prompt preset"
+            className={`flex max-w-32 shrink-0 items-center gap-1 rounded-full px-2.5 py-1 text-xs transition-colors hover:bg-muted ${
+              active ? "bg-teal-500/10 text-teal-400" : "text-muted-foreground"
+            }`}
+          >
+            <ScrollText className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">{active ? active.name : "Default"}</span>
+            <ChevronDown className="h-3 w-3 shrink-0" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 p-1">
+          <div className="flex flex-col">
+            <button
+              type="button"
+              onClick={() => {
+                onChange(null);
+                setOpen(false);
+              }}
+              className={`flex items-center gap-2 rounded-md px-3 py-2 text-sm transition-colors hover:bg-muted ${
+                !active ? "bg-muted" : ""
+              }`}
+            >
+              <span className="flex-1 text-left">Default prompt</span>
+              {!active && <Check className="h-4 w-4 text-primary" />}
+            </button>
+            {presets.map((preset) => (
+              <div
+                key={preset.id}
+                className={`flex items-center rounded-md transition-colors hover:bg-muted ${
+                  preset.id === presetId ? "bg-muted" : ""
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => {
+                    onChange(preset.id);
+                    setOpen(false);
+                  }}
+                  className="flex min-w-0 flex-1 items-center gap-2 px-3 py-2 text-sm"
+                >
+                  <span className="min-w-0 flex-1 truncate text-left">{preset.name}</span>
+                  {preset.id === presetId && <Check className="h-4 w-4 shrink-0 text-primary" />}
+                </button>
+                <button
+                  type="button"
+                  title="Edit preset"
+                  onClick={() => editPreset(preset)}
+                  className="shrink-0 rounded-md p-2 text-muted-foreground hover:text-foreground"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => editPreset()}
+              className="flex items-center gap-2 rounded-md px-3 py-2 text-sm text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New preset</span>
+            </button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Sheet open={!!draft} onOpenChange={(next) => !next && setDraft(null)}>
+        <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <ScrollText className="h-5 w-5" />
+              {draft?.id ? "Edit preset" : "New preset"}
+            </SheetTitle>
+            <SheetDescription>Sent to Claude on every turn of the sessions that use it</SheetDescription>
+          </SheetHeader>
+
+          {draft && (
+            <div className="space-y-4 px-4 pb-6">
+              {error && <div className="rounded-lg bg-red-500/10 p-3 text-sm text-red-400">{error}</div>}
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-medium text-muted-foreground">Name</label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Code reviewer"
+                />
+              </div>
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-medium text-muted-foreground">Append to system prompt</label>
+                <Textarea
+                  value={draft.appendSystemPrompt}
+                  onChange={(e) => setDraft({ ...draft, appendSystemPrompt: e.target.value })}
+                  placeholder="Extra instructions added after Claude Code's own prompt"
+                  className="min-h-24 text-sm"
+                />
+              </div>
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-medium text-muted-foreground">Replace system prompt</label>
+                <Textarea
+                  value={draft.systemPrompt}
+                  onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+                  placeholder="Leave empty to keep Claude Code's default prompt"
+                  className="min-h-24 text-sm"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                {draft.id && (
+                  <Button variant="ghost" className="text-red-400" onClick={deletePreset} disabled={saving}>
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </Button>
+                )}
+                <Button className="flex-1" onClick={savePreset} disabled={saving || !draft.name.trim()}>
+                  {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronDown, FolderGit2, Loader2, Plus, Trash2 } from "lucide-react";
+import type { Project } from "@/lib/types";
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  projectId: string;
+  onSwitch: (projectId: string) => void;
+  // Called after a project was added or removed
+  onProjectsChange: () => void;
+}
+
+export function ProjectSwitcher({ projects, projectId, onSwitch, onProjectsChange }: ProjectSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [draft, setDraft] = useState({ name: "", path: "" });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = projects.find((project) => project.id === projectId);
+
+  // Project routes aren't scoped to a project, so plain fetch is enough
+  const addProject = async () => {
+    if (!draft.path.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/projects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path: draft.path.trim(), ...(draft.name.trim() && { name: draft.name.trim() }) }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to add project");
+        return;
+      }
+      setDraft({ name: "", path: "" });
+      setAdding(false);
+      setOpen(false);
+      onProjectsChange();
+      onSwitch(data.project.id);
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeProject = async (id: string) => {
+    try {
+      await fetch(`/api/projects/${id}`, { method: "DELETE" });
+      if (id === projectId) onSwitch("default");
+      onProjectsChange();
+    } catch (err) {
+      console.error("Failed to remove project:", err);
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        setAdding(false);
+        setError(null);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button type="button" className="flex min-w-0 max-w-full items-center gap-1 text-left">
+          <h1 className="truncate font-semibold">{current?.name || "Claude Code"}</h1>
+          <ChevronDown className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-1">
+        <div className="flex flex-col">
+          {projects.map((project) => (
+            <div
+              key={project.id}
+              className={`flex items-center rounded-md transition-colors hover:bg-muted ${
+                project.id === projectId ? "bg-muted" : ""
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => {
+                  setOpen(false);
+                  if (project.id !== projectId) onSwitch(project.id);
+                }}
+                className="flex min-w-0 flex-1 items-center gap-2 px-3 py-2 text-left"
+              >
+                <FolderGit2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm">{project.name}</span>
+                  <span className="block truncate text-[11px] text-muted-foreground">{project.path}</span>
+                </span>
+                {project.id === projectId && <Check className="h-4 w-4 shrink-0 text-primary" />}
+              </button>
+              {project.id !== "default" && (
+                <button
+                  type="button"
+                  title="Remove project"
+                  onClick={() => removeProject(project.id)}
+                  className="shrink-0 rounded-md p-2 text-muted-foreground hover:text-red-400"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+
+          {adding ? (
+            <form
+              className="space-y-1.5 border-t p-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addProject();
+              }}
+            >
+              <Input
+                value={draft.path}
+                onChange={(e) => setDraft({ ...draft, path: e.target.value })}
+                placeholder="~/code/my-app"
+                className="h-8 text-sm"
+                autoFocus
+              />
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name (optional)"
+                className="h-8 text-sm"
+              />
+              {error && <p className="rounded-md bg-red-500/10 p-2 text-xs text-red-400">{error}</p>}
+              <Button type="submit" size="sm" className="h-8 w-full" disabled={saving || !draft.path.trim()}>
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                Add project
+              </Button>
+            </form>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setAdding(true)}
+              className="flex items-center gap-2 rounded-md px-3 py-2 text-sm text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add project</span>
+            </button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
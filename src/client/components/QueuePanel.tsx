@@ -0,0 +1,67 @@
+import { memo } from "react";
+import { ArrowDown, ArrowUp, ListOrdered, X, Zap } from "lucide-react";
+import type { QueuedMessage } from "@/lib/types";
+
+interface QueuePanelProps {
+  queue: QueuedMessage[];
+  onMove: (id: string, direction: -1 | 1) => void;
+  onCancel: (id: string) => void;
+  onSendNow: (id: string) => void;
+}
+
+export const QueuePanel = memo(function QueuePanel({ queue, onMove, onCancel, onSendNow }: QueuePanelProps) {
+  if (queue.length === 0) return null;
+
+  return (
+    <div className="mb-2 rounded-xl bg-zinc-900/80 p-2 ring-1 ring-zinc-800">
+      <div className="mb-1.5 flex items-center gap-1.5 px-1 text-xs text-muted-foreground">
+        <ListOrdered className="h-3.5 w-3.5" />
+        <span>Queued ({queue.length})</span>
+      </div>
+      <div className="flex flex-col gap-1">
+        {queue.map((item, idx) => (
+          <div
+            key={item.id}
+            className="flex items-center gap-1 rounded-lg bg-zinc-800/60 py-1 pl-2.5 pr-1"
+          >
+            <span className="min-w-0 flex-1 truncate text-sm text-zinc-200">{item.message}</span>
+            <button
+              type="button"
+              title="Move up"
+              disabled={idx === 0}
+              onClick={() => onMove(item.id, -1)}
+              className="flex h-7 w-7 items-center justify-center rounded-md text-zinc-400 hover:bg-zinc-700 disabled:opacity-30"
+            >
+              <ArrowUp className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              title="Move down"
+              disabled={idx === queue.length - 1}
+              onClick={() => onMove(item.id, 1)}
+              className="flex h-7 w-7 items-center justify-center rounded-md text-zinc-400 hover:bg-zinc-700 disabled:opacity-30"
+            >
+              <ArrowDown className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              title="Interrupt and send now"
+              onClick={() => onSendNow(item.id)}
+              className="flex h-7 w-7 items-center justify-center rounded-md text-amber-400 hover:bg-amber-500/20"
+            >
+              <Zap className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              title="Cancel"
+              onClick={() => onCancel(item.id)}
+              className="flex h-7 w-7 items-center justify-center rounded-md text-red-400 hover:bg-red-500/20"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
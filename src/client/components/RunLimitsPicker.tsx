@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChevronDown, Timer } from "lucide-react";
+import type { RunLimits } from "@/lib/types";
+
+interface RunLimitsPickerProps {
+  limits: RunLimits;
+  onChange: (limits: RunLimits) => void;
+}
+
+const describeLimits = ({ maxTurns, timeLimitMs }: RunLimits) =>
+  [maxTurns && `${maxTurns} ${maxTurns === 1 ? "turn" : "turns"}`, timeLimitMs && `${timeLimitMs / 60000}m`]
+    .filter(Boolean)
+    .join(" · ");
+
+export function RunLimitsPicker({ limits, onChange }: RunLimitsPickerProps) {
+  const [open, setOpen] = useState(false);
+  const label = describeLimits(limits);
+
+  // Empty or invalid input means no limit
+  const setLimit = (key: keyof RunLimits, value: string, scale = 1) => {
+    const parsed = Math.round(Number(value) * scale);
+    onChange({ ...limits, [key]: parsed > 0 ? parsed : undefined });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          title="Turn and time limits"
+          className="flex min-w-0 items-center gap-1.5 rounded-full bg-muted/50 px-3 py-1.5 text-sm text-muted-foreground transition-colors hover:bg-muted"
+        >
+          <Timer className={`h-4 w-4 shrink-0 ${label ? "text-sky-500" : "text-zinc-500"}`} />
+          {label && <span className="truncate">{label}</span>}
+          <ChevronDown className="h-3.5 w-3.5 shrink-0" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="center" className="w-56 space-y-3 p-3">
+        <p className="text-xs text-muted-foreground">Stop each run after</p>
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            placeholder="∞"
+            value={limits.maxTurns ?? ""}
+            onChange={(e) => setLimit("maxTurns", e.target.value)}
+            className="h-8 w-20"
+          />
+          <span className="text-muted-foreground">turns</span>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={1}
+            step="any"
+            placeholder="∞"
+            value={limits.timeLimitMs ? limits.timeLimitMs / 60000 : ""}
+            onChange={(e) => setLimit("timeLimitMs", e.target.value, 60000)}
+            className="h-8 w-20"
+          />
+          <span className="text-muted-foreground">minutes</span>
+        </div>
+        {label && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange({})}>
+            No limits
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,223 @@
+import { useRef, useState, type ReactNode } from "react";
+import { Input } from "@/components/ui/input";
+import { Archive, ArchiveRestore, GitBranch, GitFork, MessageSquare, Pencil, Pin, PinOff, Tag, Trash2 } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+import { formatDate } from "@/lib/format";
+import type { Session, SessionView } from "@/lib/types";
+
+// Touch gestures that show a row's actions
+const LONG_PRESS_MS = 500;
+const SWIPE_PX = 40;
+
+type SessionAction = "archive" | "delete" | "restore";
+
+interface SessionItemProps {
+  session: Session;
+  // Nesting level in the fork tree
+  depth: number;
+  active: boolean;
+  // The list the row is in; archived and deleted sessions can only be restored
+  view: SessionView;
+  onSelect: () => void;
+  // Called after the session was renamed, retagged, pinned, archived, deleted or restored
+  onChange: () => void;
+  // Called after the session was archived or deleted, to offer an undo
+  onRemoved?: (session: Session, action: "archive" | "delete") => void;
+}
+
+// A row of the sessions sheet. Hover, swipe left or long-press for its actions.
+export function SessionItem({ session, depth, active, view, onSelect, onChange, onRemoved }: SessionItemProps) {
+  // The title or the comma-separated tags being edited in place
+  const [editing, setEditing] = useState<{ field: "title" | "tags"; value: string } | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const touch = useRef<{ x: number; y: number; timer: ReturnType<typeof setTimeout>; longPress: boolean } | null>(null);
+
+  const updateMeta = async (patch: { title?: string; tags?: string[]; pinned?: boolean }) => {
+    try {
+      await apiFetch(`/api/sessions/${session.id}/meta`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", "X-Project-Id": session.projectId },
+        body: JSON.stringify(patch),
+      });
+      onChange();
+    } catch (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    setEditing(null);
+    if (editing.field === "title") {
+      const title = editing.value.trim();
+      if (title !== (session.title || "")) updateMeta({ title });
+    } else {
+      const tags = editing.value.split(",").map((tag) => tag.trim()).filter(Boolean);
+      if (tags.join(",") !== session.tags.join(",")) updateMeta({ tags });
+    }
+  };
+
+  const runAction = async (action: SessionAction) => {
+    setRevealed(false);
+    setError(null);
+    try {
+      // The session may belong to another project than the one open
+      const res = await apiFetch(action === "delete" ? `/api/sessions/${session.id}` : `/api/sessions/${session.id}/${action}`, {
+        method: action === "delete" ? "DELETE" : "POST",
+        headers: { "X-Project-Id": session.projectId },
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || `Failed to ${action} the session`);
+        return;
+      }
+      onChange();
+      if (action !== "restore") onRemoved?.(session, action);
+    } catch {
+      setError("Failed to connect to server");
+    }
+  };
+
+  const Icon = depth > 0 ? GitFork : MessageSquare;
+
+  const actionButton = (title: string, icon: ReactNode, onClick: () => void, danger = false) => (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      className={`rounded-md p-1.5 text-muted-foreground ${danger ? "hover:text-red-400" : "hover:text-foreground"}`}
+    >
+      {icon}
+    </button>
+  );
+
+  const daysLeft = session.expiresAt ? Math.max(0, Math.ceil((session.expiresAt - Date.now()) / 86_400_000)) : null;
+
+  return (
+    <div>
+      <div
+        style={{ paddingLeft: `${1 + depth * 1.25}rem` }}
+        className={`group flex items-start gap-1 pr-2 hover:bg-muted ${active || revealed ? "bg-muted" : ""}`}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          setRevealed(true);
+        }}
+        onTouchStart={(e) => {
+          const point = e.touches[0];
+          if (!point) return;
+          const timer = setTimeout(() => {
+            if (touch.current) touch.current.longPress = true;
+            setRevealed(true);
+          }, LONG_PRESS_MS);
+          touch.current = { x: point.clientX, y: point.clientY, timer, longPress: false };
+        }}
+        onTouchMove={(e) => {
+          const start = touch.current;
+          const point = e.touches[0];
+          if (!start || !point) return;
+          const dx = point.clientX - start.x;
+          // Scrolling or swiping isn't a long press
+          if (Math.abs(dx) > 10 || Math.abs(point.clientY - start.y) > 10) clearTimeout(start.timer);
+          if (dx < -SWIPE_PX) setRevealed(true);
+          else if (dx > SWIPE_PX) setRevealed(false);
+        }}
+        onTouchEnd={(e) => {
+          clearTimeout(touch.current?.timer);
+          // The press opened the actions; don't also open the session
+          if (touch.current?.longPress) e.preventDefault();
+          touch.current = null;
+        }}
+      >
+        {editing ? (
+          <form
+            className="flex flex-1 items-center gap-2 py-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveEdit();
+            }}
+          >
+            {editing.field === "title" ? (
+              <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+            ) : (
+              <Tag className="h-4 w-4 shrink-0 text-muted-foreground" />
+            )}
+            <Input
+              value={editing.value}
+              onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+              onBlur={saveEdit}
+              onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+              placeholder={editing.field === "title" ? session.preview : "bugfix, infra"}
+              maxLength={editing.field === "title" ? 200 : undefined}
+              className="h-8 text-sm"
+              autoFocus
+            />
+          </form>
+        ) : (
+          <>
+            <button
+              onClick={() => (view === "active" ? onSelect() : setRevealed((prev) => !prev))}
+              className="flex min-w-0 flex-1 flex-col gap-1 py-3 text-left"
+            >
+              <span className="flex items-center gap-2">
+                <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="flex-1 truncate text-sm">{session.title || session.preview}</span>
+                {session.pinned && <Pin className="h-3 w-3 shrink-0 text-primary" />}
+              </span>
+              <span className="flex items-center gap-1.5 pl-6 text-xs text-muted-foreground">
+                {view === "trash" && daysLeft !== null
+                  ? `Deleted · ${daysLeft === 1 ? "1 day" : `${daysLeft} days`} left`
+                  : view === "archived" && session.removedAt
+                    ? `Archived ${formatDate(session.removedAt)}`
+                    : formatDate(session.modified)}
+                {session.branch && (
+                  <>
+                    <GitBranch className="h-3 w-3" />
+                    <span className="truncate">{session.branch}</span>
+                  </>
+                )}
+              </span>
+              {session.tags.length > 0 && (
+                <span className="flex flex-wrap gap-1 pl-6">
+                  {session.tags.map((tag) => (
+                    <span key={tag} className="rounded-full bg-muted px-1.5 py-0.5 text-[10px] text-muted-foreground">
+                      {tag}
+                    </span>
+                  ))}
+                </span>
+              )}
+            </button>
+            <div className={`mt-1.5 shrink-0 items-center ${revealed ? "flex" : "hidden group-hover:flex"}`}>
+              {view === "active" ? (
+                <>
+                  {actionButton(
+                    session.pinned ? "Unpin" : "Pin",
+                    session.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />,
+                    () => {
+                      setRevealed(false);
+                      updateMeta({ pinned: !session.pinned });
+                    }
+                  )}
+                  {actionButton("Rename", <Pencil className="h-3.5 w-3.5" />, () => {
+                    setRevealed(false);
+                    setEditing({ field: "title", value: session.title || "" });
+                  })}
+                  {actionButton("Tags", <Tag className="h-3.5 w-3.5" />, () => {
+                    setRevealed(false);
+                    setEditing({ field: "tags", value: session.tags.join(", ") });
+                  })}
+                  {actionButton("Archive", <Archive className="h-3.5 w-3.5" />, () => runAction("archive"))}
+                </>
+              ) : (
+                actionButton("Restore", <ArchiveRestore className="h-3.5 w-3.5" />, () => runAction("restore"))
+              )}
+              {view !== "trash" &&
+                actionButton("Delete", <Trash2 className="h-3.5 w-3.5" />, () => runAction("delete"), true)}
+            </div>
+          </>
+        )}
+      </div>
+      {error && <p className="mx-4 mb-2 rounded-md bg-red-500/10 p-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -8,27 +8,33 @@ import {
   SheetTitle,
   SheetDescription,
 } from "@/components/ui/sheet";
-import { Shield, Settings, Check, Copy, Loader2, AlertTriangle } from "lucide-react";
-
-interface HookStatus {
-  configured: boolean;
-  globalConfigured: boolean;
-  projectConfigured: boolean;
-  hookScriptPath: string;
-  globalSettingsPath: string;
-  projectSettingsPath: string;
-  cwd: string;
-}
+import {
+  Shield,
+  Settings,
+  Check,
+  Copy,
+  Loader2,
+  AlertTriangle,
+  CheckCircle2,
+  XCircle,
+  RefreshCw,
+  Stethoscope,
+} from "lucide-react";
+import type { HealthCheck, HealthReport } from "@/lib/types";
+import { apiFetch } from "@/lib/api";
 
 interface SetupWizardProps {
-  hookStatus: HookStatus | null;
-  onConfigured: () => void;
+  health: HealthReport | null;
+  onRecheck: () => Promise<void>;
 }
 
-export function SetupBanner({ hookStatus, onConfigured }: SetupWizardProps) {
+export function SetupBanner({ health, onRecheck }: SetupWizardProps) {
   const [wizardOpen, setWizardOpen] = useState(false);
 
-  if (!hookStatus || hookStatus.configured) return null;
+  if (!health || health.ok) return null;
+
+  // Anything besides the hook means chats won't work at all
+  const blocking = health.checks.find((check) => !check.ok && check.id !== "hook" && check.id !== "git");
 
   return (
     <>
@@ -38,10 +44,21 @@ export function SetupBanner({ hookStatus, onConfigured }: SetupWizardProps) {
             <AlertTriangle className="h-4 w-4 text-yellow-400" />
           </div>
           <div className="min-w-0 flex-1">
-            <p className="font-medium text-yellow-200">Permission System Not Configured</p>
-            <p className="text-xs text-yellow-300/70">
-              Tool approvals won't work until you set up the permission hook
-            </p>
+            {blocking ? (
+              <>
+                <p className="font-medium text-yellow-200">Claude Is Not Ready</p>
+                <p className="text-xs text-yellow-300/70">
+                  {blocking.label}: {blocking.detail}
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="font-medium text-yellow-200">Permission System Not Configured</p>
+                <p className="text-xs text-yellow-300/70">
+                  Tool approvals won't work until you set up the permission hook
+                </p>
+              </>
+            )}
           </div>
           <Button
             size="sm"
@@ -57,10 +74,11 @@ export function SetupBanner({ hookStatus, onConfigured }: SetupWizardProps) {
       <SetupWizardDialog
         open={wizardOpen}
         onOpenChange={setWizardOpen}
-        hookStatus={hookStatus}
+        health={health}
+        onRecheck={onRecheck}
         onConfigured={() => {
           setWizardOpen(false);
-          onConfigured();
+          onRecheck();
         }}
       />
     </>
@@ -70,12 +88,32 @@ export function SetupBanner({ hookStatus, onConfigured }: SetupWizardProps) {
 interface SetupWizardDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  hookStatus: HookStatus;
+  health: HealthReport;
+  onRecheck: () => Promise<void>;
   onConfigured: () => void;
 }
 
-function SetupWizardDialog({ open, onOpenChange, hookStatus, onConfigured }: SetupWizardDialogProps) {
-  const [step, setStep] = useState<"choose" | "manual" | "auto">("choose");
+function CheckRow({ check }: { check: HealthCheck }) {
+  // A missing git repo is only a warning
+  const Icon = check.ok ? CheckCircle2 : check.id === "git" ? AlertTriangle : XCircle;
+  const color = check.ok ? "text-green-500" : check.id === "git" ? "text-yellow-400" : "text-red-400";
+
+  return (
+    <div className="flex items-start gap-3 rounded-lg bg-muted/40 p-3">
+      <Icon className={`mt-0.5 h-4 w-4 shrink-0 ${color}`} />
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium">{check.label}</p>
+        <p className="break-all text-xs text-muted-foreground">{check.detail}</p>
+        {check.fix && <p className="mt-1 text-xs text-yellow-300/80">{check.fix}</p>}
+      </div>
+    </div>
+  );
+}
+
+function SetupWizardDialog({ open, onOpenChange, health, onRecheck, onConfigured }: SetupWizardDialogProps) {
+  const hookStatus = health.hooks;
+  const [step, setStep] = useState<"diagnostics" | "choose" | "manual" | "auto">("diagnostics");
+  const [checking, setChecking] = useState(false);
   const [configuring, setConfiguring] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
@@ -105,7 +143,7 @@ function SetupWizardDialog({ open, onOpenChange, hookStatus, onConfigured }: Set
     setError(null);
 
     try {
-      const res = await fetch("/api/hook-configure", {
+      const res = await apiFetch("/api/hook-configure", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ location }),
@@ -124,6 +162,15 @@ function SetupWizardDialog({ open, onOpenChange, hookStatus, onConfigured }: Set
     }
   };
 
+  const recheck = async () => {
+    setChecking(true);
+    try {
+      await onRecheck();
+    } finally {
+      setChecking(false);
+    }
+  };
+
   const copyToClipboard = async () => {
     await navigator.clipboard.writeText(configJson);
     setCopied(true);
@@ -135,14 +182,44 @@ function SetupWizardDialog({ open, onOpenChange, hookStatus, onConfigured }: Set
       <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto">
         <SheetHeader>
           <SheetTitle className="flex items-center gap-2">
-            <Shield className="h-5 w-5" />
-            Setup Permission System
+            {step === "diagnostics" ? <Stethoscope className="h-5 w-5" /> : <Shield className="h-5 w-5" />}
+            {step === "diagnostics" ? "Setup" : "Setup Permission System"}
           </SheetTitle>
           <SheetDescription>
-            Configure Claude to send permission requests to this chat interface
+            {step === "diagnostics"
+              ? "Make sure Claude is installed, logged in and pointed at the right project"
+              : "Configure Claude to send permission requests to this chat interface"}
           </SheetDescription>
         </SheetHeader>
 
+        {step === "diagnostics" && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Stethoscope className="h-4 w-4" />
+              <span>Checks for running Claude on this server</span>
+            </div>
+
+            <div className="grid gap-2">
+              {health.checks.map((check) => (
+                <CheckRow key={check.id} check={check} />
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={recheck} disabled={checking}>
+                {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                Check again
+              </Button>
+              {!hookStatus.configured && (
+                <Button className="flex-1" onClick={() => setStep("choose")}>
+                  <Shield className="h-4 w-4" />
+                  Set up hook
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
         {step === "choose" && (
           <div className="space-y-4">
             <p className="text-sm text-muted-foreground">
@@ -185,6 +262,10 @@ function SetupWizardDialog({ open, onOpenChange, hookStatus, onConfigured }: Set
                 </div>
               </Card>
             </div>
+
+            <Button variant="ghost" className="w-full" onClick={() => setStep("diagnostics")}>
+              Back
+            </Button>
           </div>
         )}
 
@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Check, ChevronDown, Loader2, Pencil, Plus, Trash2, Wrench } from "lucide-react";
+import type { ToolProfile } from "@/lib/types";
+import { apiFetch } from "@/lib/api";
+
+interface ToolProfilePickerProps {
+  // Profile for the next message, null for all tools
+  profileId: string | null;
+  onChange: (profileId: string | null) => void;
+}
+
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  // Comma-separated tool names as typed
+  allowedTools: string;
+  disallowedTools: string;
+}
+
+const EMPTY_DRAFT: ProfileDraft = { name: "", allowedTools: "", disallowedTools: "" };
+
+const splitTools = (value: string) =>
+  value
+    .split(",")
+    .map((tool) => tool.trim())
+    .filter(Boolean);
+
+export function ToolProfilePicker({ profileId, onChange }: ToolProfilePickerProps) {
+  const [profiles, setProfiles] = useState<ToolProfile[]>([]);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfiles = async () => {
+    try {
+      const res = await apiFetch("/api/tool-profiles");
+      const data = await res.json();
+      if (data.success) setProfiles(data.profiles);
+    } catch (err) {
+      console.error("Failed to fetch tool profiles:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const active = profiles.find((profile) => profile.id === profileId);
+
+  const editProfile = (profile?: ToolProfile) => {
+    setOpen(false);
+    setError(null);
+    setDraft(
+      profile
+        ? {
+            id: profile.id,
+            name: profile.name,
+            allowedTools: profile.allowedTools.join(", "),
+            disallowedTools: profile.disallowedTools.join(", "),
+          }
+        : EMPTY_DRAFT
+    );
+  };
+
+  const saveProfile = async () => {
+    if (!draft?.name.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await apiFetch(draft.id ? `/api/tool-profiles/${draft.id}` : "/api/tool-profiles", {
+        method: draft.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: draft.name,
+          allowedTools: splitTools(draft.allowedTools),
+          disallowedTools: splitTools(draft.disallowedTools),
+        }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to save profile");
+        return;
+      }
+      await fetchProfiles();
+      if (!draft.id) onChange(data.profile.id);
+      setDraft(null);
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!draft?.id) return;
+    setSaving(true);
+    try {
+      await apiFetch(`/api/tool-profiles/${draft.id}`, { method: "DELETE" });
+      if (draft.id === profileId) onChange(null);
+      await fetchProfiles();
+      setDraft(null);
+    } catch (err) {
+      console.error("Failed to delete tool profile:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Popover
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (next) fetchProfiles();
+        }}
+      >
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className="flex min-w-0 items-center gap-1.5 rounded-full bg-muted/50 px-3 py-1.5 text-sm text-muted-foreground transition-colors hover:bg-muted"
+          >
+            <Wrench className={`h-4 w-4 shrink-0 ${active ? "text-orange-500" : "text-zinc-500"}`} />
+            <span className="truncate">{active ? active.name : "All tools"}</span>
+            <ChevronDown className="h-3.5 w-3.5 shrink-0" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="center" className="w-60 p-1">
+          <div className="flex flex-col">
+            <button
+              type="button"
+              onClick={() => {
+                onChange(null);
+                setOpen(false);
+              }}
+              className={`flex items-center gap-2 rounded-md px-3 py-2 text-sm transition-colors hover:bg-muted ${
+                !active ? "bg-muted" : ""
+              }`}
+            >
+              <span className="flex-1 text-left">All tools</span>
+              {!active && <Check className="h-4 w-4 text-primary" />}
+            </button>
+            {profiles.map((profile) => (
+              <div
+                key={profile.id}
+                className={`flex items-center rounded-md transition-colors hover:bg-muted ${
+                  profile.id === profileId ? "bg-muted" : ""
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => {
+                    onChange(profile.id);
+                    setOpen(false);
+                  }}
+                  className="flex min-w-0 flex-1 items-center gap-2 px-3 py-2 text-sm"
+                >
+                  <span className="min-w-0 flex-1 truncate text-left">{profile.name}</span>
+                  {profile.id === profileId && <Check className="h-4 w-4 shrink-0 text-primary" />}
+                </button>
+                {!profile.builtIn && (
+                  <button
+                    type="button"
+                    title="Edit profile"
+                    onClick={() => editProfile(profile)}
+                    className="shrink-0 rounded-md p-2 text-muted-foreground hover:text-foreground"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => editProfile()}
+              className="flex items-center gap-2 rounded-md px-3 py-2 text-sm text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New profile</span>
+            </button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Sheet open={!!draft} onOpenChange={(next) => !next && setDraft(null)}>
+        <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <Wrench className="h-5 w-5" />
+              {draft?.id ? "Edit tool profile" : "New tool profile"}
+            </SheetTitle>
+            <SheetDescription>
+              Comma-separated tool names, e.g. Read, Grep, Bash(git diff:*). Listing allowed tools turns
+              off every other tool, MCP servers included.
+            </SheetDescription>
+          </SheetHeader>
+
+          {draft && (
+            <div className="space-y-4 px-4 pb-6">
+              {error && <div className="rounded-lg bg-red-500/10 p-3 text-sm text-red-400">{error}</div>}
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-medium text-muted-foreground">Name</label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Docs only"
+                />
+              </div>
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-medium text-muted-foreground">Only these tools, without asking</label>
+                <Input
+                  value={draft.allowedTools}
+                  onChange={(e) => setDraft({ ...draft, allowedTools: e.target.value })}
+                  placeholder="Read, Grep, Glob"
+                />
+              </div>
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-medium text-muted-foreground">Not allowed</label>
+                <Input
+                  value={draft.disallowedTools}
+                  onChange={(e) => setDraft({ ...draft, disallowedTools: e.target.value })}
+                  placeholder="Bash, WebFetch"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                {draft.id && (
+                  <Button variant="ghost" className="text-red-400" onClick={deleteProfile} disabled={saving}>
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </Button>
+                )}
+                <Button className="flex-1" onClick={saveProfile} disabled={saving || !draft.name.trim()}>
+                  {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
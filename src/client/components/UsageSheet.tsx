@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { BarChart3, Loader2 } from "lucide-react";
+import { formatCost } from "@/lib/format";
+import type { BudgetLimits, BudgetStatus, UsageSummary } from "@/lib/types";
+import { apiFetch } from "@/lib/api";
+
+type BudgetKey = "daily" | "project" | "sessionDefault" | "session";
+
+// Limits as typed into the inputs; empty means no limit
+type BudgetDraft = Record<BudgetKey, { softUsd: string; hardUsd: string }>;
+
+const BUDGET_ROWS: Array<{ key: BudgetKey; label: string }> = [
+  { key: "daily", label: "Daily" },
+  { key: "project", label: "Project / month" },
+  { key: "sessionDefault", label: "Any session" },
+  { key: "session", label: "This session" },
+];
+
+const toDraftValue = (usd?: number) => (usd ? String(usd) : "");
+
+const toLimits = ({ softUsd, hardUsd }: { softUsd: string; hardUsd: string }): BudgetLimits => ({
+  ...(Number(softUsd) > 0 && { softUsd: Number(softUsd) }),
+  ...(Number(hardUsd) > 0 && { hardUsd: Number(hardUsd) }),
+});
+
+interface UsageSheetProps {
+  // Session titles (or previews), to label the per-session breakdown
+  sessionLabels: Record<string, string>;
+  onSelectSession: (sessionId: string) => void;
+  sessionId: string | null;
+  onBudgetChange: (budget: BudgetStatus[]) => void;
+}
+
+export function UsageSheet({ sessionLabels, onSelectSession, sessionId, onBudgetChange }: UsageSheetProps) {
+  const [open, setOpen] = useState(false);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [budgetDraft, setBudgetDraft] = useState<BudgetDraft | null>(null);
+  const [savingBudget, setSavingBudget] = useState(false);
+
+  const fetchUsage = async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch("/api/usage");
+      const data = await res.json();
+      if (data.success) setUsage(data);
+    } catch (error) {
+      console.error("Failed to fetch usage:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBudget = async () => {
+    try {
+      const query = sessionId ? `?sessionId=${sessionId}` : "";
+      const res = await apiFetch(`/api/budgets${query}`);
+      const data = await res.json();
+      if (!data.success) return;
+
+      const draft = {} as BudgetDraft;
+      for (const { key } of BUDGET_ROWS) {
+        const limits: BudgetLimits = data.limits[key] || {};
+        draft[key] = { softUsd: toDraftValue(limits.softUsd), hardUsd: toDraftValue(limits.hardUsd) };
+      }
+      setBudgetDraft(draft);
+      onBudgetChange(data.status);
+    } catch (error) {
+      console.error("Failed to fetch budgets:", error);
+    }
+  };
+
+  const saveBudget = async () => {
+    if (!budgetDraft) return;
+    setSavingBudget(true);
+    try {
+      const res = await apiFetch("/api/budgets", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          daily: toLimits(budgetDraft.daily),
+          project: toLimits(budgetDraft.project),
+          sessionDefault: toLimits(budgetDraft.sessionDefault),
+          ...(sessionId && { session: { sessionId, limits: toLimits(budgetDraft.session) } }),
+        }),
+      });
+      const data = await res.json();
+      if (data.success) onBudgetChange(data.status);
+    } catch (error) {
+      console.error("Failed to save budgets:", error);
+    } finally {
+      setSavingBudget(false);
+    }
+  };
+
+  const updateDraft = (key: BudgetKey, field: "softUsd" | "hardUsd", value: string) => {
+    setBudgetDraft((prev) => (prev ? { ...prev, [key]: { ...prev[key], [field]: value } } : prev));
+  };
+
+  const maxDay = Math.max(...(usage?.days.map((d) => d.costUsd) || [0]), 0.0001);
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) {
+          fetchUsage();
+          fetchBudget();
+        }
+      }}
+    >
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8">
+          <BarChart3 className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Usage
+          </SheetTitle>
+          <SheetDescription>Claude spending for this project</SheetDescription>
+        </SheetHeader>
+
+        {loading && !usage && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {usage && (
+          <div className="space-y-5 px-4 pb-6">
+            <div className="grid grid-cols-3 gap-2">
+              {[
+                { label: "Today", value: usage.todayUsd },
+                { label: "Last 7 days", value: usage.weekUsd },
+                { label: "All time", value: usage.totalUsd },
+              ].map((stat) => (
+                <div key={stat.label} className="rounded-lg bg-muted/50 p-3">
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="text-lg font-semibold">{formatCost(stat.value)}</p>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <p className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                Daily
+              </p>
+              <div className="space-y-1">
+                {usage.days
+                  .slice()
+                  .reverse()
+                  .map((day) => (
+                    <div key={day.date} className="flex items-center gap-2 text-xs">
+                      <span className="w-20 shrink-0 text-muted-foreground">
+                        {new Date(`${day.date}T00:00`).toLocaleDateString([], {
+                          weekday: "short",
+                          month: "short",
+                          day: "numeric",
+                        })}
+                      </span>
+                      <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted/40">
+                        <div
+                          className="h-full rounded-full bg-gradient-to-r from-blue-500 to-purple-500"
+                          style={{ width: `${(day.costUsd / maxDay) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-16 shrink-0 text-right">{formatCost(day.costUsd)}</span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+
+            {budgetDraft && (
+              <div>
+                <p className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  Budgets (USD)
+                </p>
+                <div className="space-y-1.5">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="flex-1" />
+                    <span className="w-24 shrink-0">Warn at</span>
+                    <span className="w-24 shrink-0">Stop at</span>
+                  </div>
+                  {BUDGET_ROWS.filter((row) => row.key !== "session" || sessionId).map(({ key, label }) => (
+                    <div key={key} className="flex items-center gap-2 text-sm">
+                      <span className="min-w-0 flex-1 truncate">{label}</span>
+                      {(["softUsd", "hardUsd"] as const).map((field) => (
+                        <Input
+                          key={field}
+                          type="number"
+                          inputMode="decimal"
+                          min={0}
+                          step="any"
+                          placeholder={field === "softUsd" ? "80%" : "None"}
+                          value={budgetDraft[key][field]}
+                          onChange={(e) => updateDraft(key, field, e.target.value)}
+                          className="h-8 w-24 shrink-0"
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+                <Button size="sm" className="mt-2 w-full" onClick={saveBudget} disabled={savingBudget}>
+                  {savingBudget && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Save budgets
+                </Button>
+              </div>
+            )}
+
+            {usage.sessions.length > 0 && (
+              <div>
+                <p className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  By session
+                </p>
+                <div className="space-y-1">
+                  {usage.sessions.slice(0, 20).map((session) => (
+                    <button
+                      key={session.sessionId}
+                      type="button"
+                      onClick={() => {
+                        setOpen(false);
+                        onSelectSession(session.sessionId);
+                      }}
+                      className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted"
+                    >
+                      <span className="min-w-0 flex-1 truncate">
+                        {sessionLabels[session.sessionId] || session.sessionId.slice(0, 8)}
+                      </span>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {session.runs} {session.runs === 1 ? "run" : "runs"}
+                      </span>
+                      <span className="w-16 shrink-0 text-right text-xs">{formatCost(session.costUsd)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import { Chat } from "./Chat";
+import { getProjectId, setProjectId } from "@/lib/api";
+import type { Project } from "@/lib/types";
+
+const DEFAULT_PROJECT_ID = "default";
+
+// Holds the current project. Switching remounts the chat so all of its state
+// and requests start over in the new project.
+export function Workspace() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setCurrentProjectId] = useState(() => getProjectId() || DEFAULT_PROJECT_ID);
+  // Session to open once the chat for the new project mounts
+  const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+
+  const switchProject = useCallback((id: string, sessionId?: string) => {
+    setProjectId(id === DEFAULT_PROJECT_ID ? null : id);
+    setOpenSessionId(sessionId ?? null);
+    setCurrentProjectId(id);
+  }, []);
+
+  const fetchProjects = useCallback(async () => {
+    try {
+      // Not scoped: a stale project ID would get this request rejected too
+      const res = await fetch("/api/projects");
+      const data = await res.json();
+      if (!data.success) return;
+      setProjects(data.projects);
+      // The remembered project was removed (or belongs to another server)
+      const remembered = getProjectId();
+      if (remembered && !data.projects.some((p: Project) => p.id === remembered)) {
+        switchProject(DEFAULT_PROJECT_ID);
+      }
+    } catch (error) {
+      console.error("Failed to fetch projects:", error);
+    }
+  }, [switchProject]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  return (
+    <Chat
+      key={projectId}
+      projectId={projectId}
+      projects={projects}
+      initialSessionId={openSessionId}
+      onSwitchProject={switchProject}
+      onProjectsChange={fetchProjects}
+    />
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { GitBranch, GitMerge, Loader2, Archive, Trash2 } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+import type { Worktree } from "@/lib/types";
+
+interface WorktreeChipProps {
+  sessionId: string;
+  worktree: Worktree;
+  // Disabled while the session is running
+  busy: boolean;
+  onChange: (worktree: Worktree) => void;
+}
+
+type WorktreeAction = "merge" | "keep" | "delete";
+
+const STATUS_LABELS: Record<Worktree["status"], string> = {
+  active: "",
+  merged: "merged",
+  kept: "kept",
+  deleted: "deleted",
+};
+
+// The session's branch, with what to do with its worktree once the work is done
+export function WorktreeChip({ sessionId, worktree, busy, onChange }: WorktreeChipProps) {
+  const [open, setOpen] = useState(false);
+  const [pending, setPending] = useState<WorktreeAction | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const closed = worktree.status === "merged" || worktree.status === "deleted";
+
+  const runAction = async (action: WorktreeAction) => {
+    setPending(action);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/sessions/${sessionId}/worktree/${action}`, { method: "POST" });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || `Failed to ${action} the worktree`);
+        return;
+      }
+      onChange(data.worktree);
+      setOpen(false);
+    } catch {
+      setError("Failed to connect to server");
+    } finally {
+      setPending(null);
+      setConfirmDelete(false);
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        setError(null);
+        setConfirmDelete(false);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          title={worktree.path}
+          className={`flex max-w-48 items-center gap-1 rounded-full py-0.5 pl-2 pr-2 text-[11px] ${
+            closed ? "bg-muted/40 text-muted-foreground/60" : "bg-emerald-500/10 text-emerald-400"
+          }`}
+        >
+          <GitBranch className="h-3 w-3 shrink-0" />
+          <span className="truncate">{worktree.branch}</span>
+          {STATUS_LABELS[worktree.status] && <span className="shrink-0">· {STATUS_LABELS[worktree.status]}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 space-y-2 p-3">
+        <p className="text-xs text-muted-foreground">
+          {closed
+            ? `This worktree was ${worktree.status}. Start a new session to keep working.`
+            : `This session works in its own checkout on ${worktree.branch}, branched from ${worktree.baseBranch}.`}
+        </p>
+
+        {error && <p className="rounded-md bg-red-500/10 p-2 text-xs text-red-400">{error}</p>}
+
+        {!closed && (
+          <div className="flex flex-col gap-1.5">
+            <Button size="sm" className="justify-start" disabled={busy || !!pending} onClick={() => runAction("merge")}>
+              {pending === "merge" ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitMerge className="h-4 w-4" />}
+              Merge into {worktree.baseBranch}
+            </Button>
+            {worktree.status !== "kept" && (
+              <Button
+                size="sm"
+                variant="secondary"
+                className="justify-start"
+                disabled={busy || !!pending}
+                onClick={() => runAction("keep")}
+              >
+                {pending === "keep" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Archive className="h-4 w-4" />}
+                Keep the branch
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="justify-start text-red-400"
+              disabled={busy || !!pending}
+              onClick={() => (confirmDelete ? runAction("delete") : setConfirmDelete(true))}
+            >
+              {pending === "delete" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              {confirmDelete ? "Delete the branch and its changes?" : "Delete worktree"}
+            </Button>
+            {busy && <p className="text-[11px] text-muted-foreground">Available once the session is idle</p>}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
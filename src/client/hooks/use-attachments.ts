@@ -0,0 +1,74 @@
+import { useRef, useState } from "react";
+import type { Upload } from "@/lib/types";
+import { apiFetch } from "@/lib/api";
+
+export interface PendingAttachment {
+  key: string;
+  name: string;
+  // Local preview until the upload finishes
+  previewUrl: string;
+  upload?: Upload;
+  error?: string;
+}
+
+export async function uploadImage(file: File, sessionId: string | null): Promise<Upload | { error: string }> {
+  const form = new FormData();
+  form.append("file", file);
+  if (sessionId) form.append("sessionId", sessionId);
+
+  try {
+    const res = await apiFetch("/api/uploads", { method: "POST", body: form });
+    const data = await res.json().catch(() => null);
+    return data?.success ? data.upload : { error: data?.error || `Upload failed (${res.status})` };
+  } catch {
+    return { error: "Failed to connect to server" };
+  }
+}
+
+// Images waiting to be sent with the next message. Each one is uploaded as
+// soon as it is added, so sending only has to pass the upload IDs along.
+export function useAttachments(sessionId: string | null) {
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const nextKey = useRef(0);
+
+  const patch = (key: string, changes: Partial<PendingAttachment>) =>
+    setAttachments((prev) => prev.map((a) => (a.key === key ? { ...a, ...changes } : a)));
+
+  const upload = async (key: string, file: File) => {
+    const result = await uploadImage(file, sessionId);
+    if ("error" in result) patch(key, { error: result.error });
+    else patch(key, { upload: result });
+  };
+
+  const addFiles = (files: Iterable<File>) => {
+    const images = Array.from(files).filter((file) => file.type.startsWith("image/"));
+    const added = images.map((file) => ({
+      key: String(nextKey.current++),
+      name: file.name || "image",
+      previewUrl: URL.createObjectURL(file),
+    }));
+    if (added.length === 0) return false;
+
+    setAttachments((prev) => [...prev, ...added]);
+    added.forEach((attachment, i) => upload(attachment.key, images[i]!));
+    return true;
+  };
+
+  const remove = (key: string) =>
+    setAttachments((prev) => {
+      const removed = prev.find((a) => a.key === key);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((a) => a.key !== key);
+    });
+
+  const clear = () =>
+    setAttachments((prev) => {
+      prev.forEach((a) => URL.revokeObjectURL(a.previewUrl));
+      return [];
+    });
+
+  const uploaded = attachments.flatMap((a) => (a.upload ? [a.upload] : []));
+  const pending = attachments.some((a) => !a.upload && !a.error);
+
+  return { attachments, uploaded, pending, addFiles, remove, clear };
+}
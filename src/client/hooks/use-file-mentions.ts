@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState, type KeyboardEvent, type RefObject } from "react";
+import { apiFetch } from "@/lib/api";
+
+const SEARCH_DELAY_MS = 120;
+
+// An "@query" being typed right before the caret
+interface Mention {
+  start: number;
+  query: string;
+}
+
+function findMention(text: string, caret: number): Mention | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: match.index + match[1]!.length, query: match[2]! };
+}
+
+// Autocomplete for @file references in the message input. Call `update` after the
+// text or caret changes and let `handleKeyDown` see key presses first.
+export function useFileMentions(
+  inputRef: RefObject<HTMLTextAreaElement | null>,
+  setInput: (value: string) => void
+) {
+  const [mention, setMention] = useState<Mention | null>(null);
+  const [files, setFiles] = useState<string[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const searchIdRef = useRef(0);
+
+  const query = mention?.query;
+  useEffect(() => {
+    if (query === undefined) {
+      setFiles([]);
+      return;
+    }
+    const searchId = ++searchIdRef.current;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await apiFetch(`/api/files?q=${encodeURIComponent(query)}&limit=8`);
+        const data = await res.json();
+        // Ignore answers to queries the user has already typed past
+        if (data.success && searchId === searchIdRef.current) {
+          setFiles(data.files);
+          setActiveIndex(0);
+        }
+      } catch (err) {
+        console.error("Failed to search files:", err);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const update = () => {
+    const el = inputRef.current;
+    setMention(el ? findMention(el.value, el.selectionStart) : null);
+  };
+
+  const close = () => setMention(null);
+
+  const select = (file: string) => {
+    const el = inputRef.current;
+    if (!el || !mention) return;
+    const caret = mention.start + 1 + mention.query.length;
+    const inserted = `@${file} `;
+    const value = el.value.slice(0, mention.start) + inserted + el.value.slice(caret).replace(/^ /, "");
+    setInput(value);
+    setMention(null);
+    // Put the caret after the reference once React has rendered the new value
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(mention.start + inserted.length, mention.start + inserted.length);
+    });
+  };
+
+  const open = mention !== null && files.length > 0;
+
+  // True when the key was used by the menu
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!open) return false;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((i) => (i + step + files.length) % files.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      select(files[activeIndex]!);
+    } else if (e.key === "Escape") {
+      close();
+    } else {
+      return false;
+    }
+    e.preventDefault();
+    return true;
+  };
+
+  return { open, files, activeIndex, setActiveIndex, update, select, close, handleKeyDown };
+}
@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from "react";
+import type { ServerEvent } from "@/lib/types";
+
+const RECONNECT_DELAY_MS = 2000;
+
+// Subscribe once to the server's /api/ws push channel, reconnecting if it drops.
+// The handler may change between renders; the latest one is always used.
+export function useServerEvents(onEvent: (event: ServerEvent) => void) {
+  const [connected, setConnected] = useState(false);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: number | null = null;
+    let disposed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+      socket = new WebSocket(`${protocol}://${window.location.host}/api/ws`);
+
+      socket.onopen = () => setConnected(true);
+      socket.onmessage = (msg) => {
+        try {
+          handlerRef.current(JSON.parse(msg.data));
+        } catch (err) {
+          console.error("Invalid server event:", err);
+        }
+      };
+      socket.onclose = () => {
+        setConnected(false);
+        if (!disposed) {
+          reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, []);
+
+  return connected;
+}
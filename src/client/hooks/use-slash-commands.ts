@@ -0,0 +1,89 @@
+import { useState, type KeyboardEvent, type RefObject } from "react";
+import type { SlashCommand } from "@/lib/types";
+import { apiFetch } from "@/lib/api";
+
+// Name prefix matches first, then other name matches, then description matches
+function filterCommands(commands: SlashCommand[], query: string): SlashCommand[] {
+  const q = query.toLowerCase();
+  const rank = (command: SlashCommand) => {
+    const name = command.name.toLowerCase();
+    if (name.startsWith(q)) return 0;
+    if (name.includes(q)) return 1;
+    if (command.description.toLowerCase().includes(q)) return 2;
+    return -1;
+  };
+  return commands
+    .map((command) => ({ command, rank: rank(command) }))
+    .filter(({ rank }) => rank !== -1)
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ command }) => command);
+}
+
+// Palette for a "/command" typed at the very start of the message input. Same
+// contract as useFileMentions: `update` on change, `handleKeyDown` first.
+export function useSlashCommands(
+  inputRef: RefObject<HTMLTextAreaElement | null>,
+  setInput: (value: string) => void
+) {
+  const [commands, setCommands] = useState<SlashCommand[] | null>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const fetchCommands = async () => {
+    try {
+      const res = await apiFetch("/api/commands");
+      const data = await res.json();
+      if (data.success) setCommands(data.commands);
+    } catch (err) {
+      console.error("Failed to fetch commands:", err);
+    }
+  };
+
+  const update = () => {
+    const el = inputRef.current;
+    const match = el && /^\/(\S*)$/.exec(el.value.slice(0, el.selectionStart));
+    const next = match ? match[1]! : null;
+    if (next !== null && query === null) fetchCommands();
+    if (next !== query) setActiveIndex(0);
+    setQuery(next);
+  };
+
+  const close = () => setQuery(null);
+
+  const matches = query !== null && commands ? filterCommands(commands, query) : [];
+  const open = matches.length > 0;
+
+  const select = (command: SlashCommand) => {
+    const el = inputRef.current;
+    if (!el) return;
+    // Replace the command being typed, keeping any arguments after it
+    const rest = el.value.replace(/^\/\S*\s?/, "");
+    const value = `/${command.name} ${rest}`;
+    setInput(value);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(value.length, value.length);
+    });
+  };
+
+  // True when the key was used by the palette
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!open) return false;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((i) => (i + step + matches.length) % matches.length);
+    } else if (e.key === "Tab" || (e.key === "Enter" && matches[activeIndex]?.name !== query)) {
+      // Enter on a fully typed command sends it instead
+      select(matches[activeIndex]!);
+    } else if (e.key === "Escape") {
+      close();
+    } else {
+      return false;
+    }
+    e.preventDefault();
+    return true;
+  };
+
+  return { open, commands: matches, activeIndex, setActiveIndex, update, select, close, handleKeyDown };
+}
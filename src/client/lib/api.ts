@@ -0,0 +1,22 @@
+// The project every API request is scoped to, remembered across reloads.
+// null means the server's default project (CLAUDE_CWD).
+const PROJECT_STORAGE_KEY = "claude-chat:project";
+
+let projectId: string | null = localStorage.getItem(PROJECT_STORAGE_KEY);
+
+export function getProjectId(): string | null {
+  return projectId;
+}
+
+export function setProjectId(id: string | null) {
+  projectId = id;
+  if (id) localStorage.setItem(PROJECT_STORAGE_KEY, id);
+  else localStorage.removeItem(PROJECT_STORAGE_KEY);
+}
+
+// fetch() for /api routes, sending the current project along unless the request names another
+export function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (projectId && !headers.has("X-Project-Id")) headers.set("X-Project-Id", projectId);
+  return fetch(input, { ...init, headers });
+}
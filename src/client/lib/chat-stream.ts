@@ -0,0 +1,149 @@
+import type { Message, ToolUse } from "./types";
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// Parse a text/event-stream response body into individual events
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) {
+        yield { event, data: data.join("\n") };
+      }
+    }
+  }
+}
+
+// A single line of claude's stream-json output
+export interface ClaudeStreamEvent {
+  type: string;
+  subtype?: string;
+  session_id?: string;
+  uuid?: string;
+  parent_tool_use_id?: string | null;
+  event?: {
+    type: string;
+    content_block?: { type: string; name?: string };
+    delta?: { type: string; text?: string; thinking?: string };
+  };
+  message?: {
+    model?: string;
+    content?: Array<{
+      type: string;
+      text?: string;
+      thinking?: string;
+      name?: string;
+      input?: ToolUse["input"];
+    }>;
+  };
+}
+
+const newDraft = (): Message => ({ role: "assistant", content: "", streaming: true });
+
+// Fold a stream-json event into the message list. Partial deltas build up a
+// draft assistant message, which is replaced by the complete message once
+// claude emits it.
+export function applyStreamEvent(messages: Message[], event: ClaudeStreamEvent): Message[] {
+  // Subagent (Task) output isn't part of the main conversation
+  if (event.parent_tool_use_id) return messages;
+
+  const last = messages[messages.length - 1];
+  const draft = last?.streaming ? last : null;
+  const withDraft = (update: (draft: Message) => Message) => {
+    const base = draft ?? newDraft();
+    return [...(draft ? messages.slice(0, -1) : messages), update(base)];
+  };
+
+  if (event.type === "stream_event" && event.event) {
+    const { type, content_block, delta } = event.event;
+
+    if (type === "content_block_start" && content_block) {
+      if (content_block.type === "thinking") {
+        return withDraft((d) => ({ ...d, thinking: [...(d.thinking || []), ""] }));
+      }
+      if (content_block.type === "tool_use" && content_block.name) {
+        return withDraft((d) => ({ ...d, toolUse: [...(d.toolUse || []), { name: content_block.name! }] }));
+      }
+      return withDraft((d) => d);
+    }
+
+    if (type === "content_block_delta" && delta) {
+      if (delta.type === "text_delta" && delta.text) {
+        const chunk = delta.text;
+        return withDraft((d) => ({ ...d, content: d.content + chunk }));
+      }
+      if (delta.type === "thinking_delta" && delta.thinking) {
+        const chunk = delta.thinking;
+        return withDraft((d) => {
+          const thinking = [...(d.thinking || [])];
+          const current = thinking.pop() ?? "";
+          return { ...d, thinking: [...thinking, current + chunk] };
+        });
+      }
+    }
+
+    return messages;
+  }
+
+  if (event.type === "assistant" && event.message?.content) {
+    const thinking: string[] = [];
+    const toolUse: ToolUse[] = [];
+    let text = "";
+
+    for (const block of event.message.content) {
+      if (block.type === "thinking" && block.thinking) thinking.push(block.thinking);
+      if (block.type === "text" && block.text) text += block.text;
+      if (block.type === "tool_use" && block.name) toolUse.push({ name: block.name, input: block.input });
+    }
+
+    // Thinking arrives as its own message; keep the draft open so the text
+    // that follows lands in the same bubble
+    if (!text && toolUse.length === 0) {
+      return thinking.length > 0 ? withDraft((d) => ({ ...d, thinking })) : messages;
+    }
+
+    const draftThinking = draft?.thinking?.filter((t) => t) || [];
+    const allThinking = thinking.length > 0 ? thinking : draftThinking;
+
+    const model = event.message.model;
+
+    return withDraft(() => ({
+      role: "assistant",
+      uuid: event.uuid,
+      content: text,
+      thinking: allThinking.length > 0 ? allThinking : undefined,
+      toolUse: toolUse.length > 0 ? toolUse : undefined,
+      model: model && model !== "<synthetic>" ? model : undefined,
+    }));
+  }
+
+  return messages;
+}
+
+// Drop the streaming flag from any draft left behind when a run ends
+export function finalizeMessages(messages: Message[]): Message[] {
+  return messages
+    .filter((m) => !m.streaming || m.content || m.toolUse?.length || m.thinking?.some((t) => t))
+    .map((m) => (m.streaming ? { ...m, streaming: false } : m));
+}
@@ -0,0 +1,253 @@
+export interface ToolUse {
+  name: string;
+  input?: {
+    file_path?: string;
+    old_string?: string;
+    new_string?: string;
+    content?: string;
+    command?: string;
+    description?: string;
+    pattern?: string;
+    path?: string;
+    [key: string]: unknown;
+  };
+}
+
+// Cost and token usage of the turn that ended with a message
+export interface TurnUsage {
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+// Run failures (see src/server/errors.ts) plus requests the server refused up front
+export type ChatErrorCode =
+  | "cli_not_found"
+  | "not_authenticated"
+  | "rate_limited"
+  | "context_too_long"
+  | "max_turns"
+  | "time_limit"
+  | "killed"
+  | "unknown"
+  | "session_busy"
+  | "too_many_runs"
+  | "budget_exceeded";
+
+// Optional per-message limits on agent turns and wall-clock time
+export interface RunLimits {
+  maxTurns?: number;
+  timeLimitMs?: number;
+}
+
+export interface ChatError {
+  code: ChatErrorCode;
+  message: string;
+  // The prompt that failed, so it can be sent again
+  prompt?: string;
+}
+
+export interface Message {
+  role: "user" | "assistant" | "system";
+  // Transcript line of the message; sessions can be forked there
+  uuid?: string;
+  content: string;
+  // Attached images of a user message, as URLs
+  images?: string[];
+  thinking?: string[];
+  toolUse?: ToolUse[];
+  // Model that produced an assistant message, e.g. "claude-sonnet-4-5-20250929"
+  model?: string;
+  usage?: TurnUsage;
+  // Name of the tool profile the turn ran under
+  toolProfile?: string;
+  // Set while the message is still being streamed from the server
+  streaming?: boolean;
+  // Set on the message standing in for a failed request
+  error?: ChatError;
+}
+
+export interface Upload {
+  // Passed back in a message's `attachments`
+  id: string;
+  url: string;
+  name: string;
+  mediaType: string;
+  size: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  path: string;
+  createdAt: number;
+}
+
+// A row of the sessions list, with our metadata about it
+export interface Session {
+  id: string;
+  modified: number;
+  // First prompt, shown when there is no title
+  preview: string;
+  projectId: string;
+  // Set by the user, or else generated after the first exchange
+  title?: string;
+  tags: string[];
+  pinned: boolean;
+  createdAt?: number;
+  // Branch of the session's worktree, if it has one
+  branch?: string;
+  // Session this one was forked from
+  parentId?: string;
+  // When an archived or deleted session was removed, and when a deleted one is gone for good
+  removedAt?: number;
+  expiresAt?: number;
+}
+
+// Which sessions the sessions sheet lists
+export type SessionView = "active" | "archived" | "trash";
+
+// Orders the sessions list can be sorted in (pinned sessions always come first)
+export type SessionSort = "modified" | "created" | "title";
+
+export interface Worktree {
+  id: string;
+  sessionId?: string;
+  cwd: string;
+  path: string;
+  branch: string;
+  baseBranch: string;
+  status: "active" | "merged" | "kept" | "deleted";
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SlashCommand {
+  // Without the leading slash
+  name: string;
+  description: string;
+  argumentHint?: string;
+  source: "builtin" | "project" | "user";
+  namespace?: string;
+}
+
+export interface UsageSummary {
+  todayUsd: number;
+  weekUsd: number;
+  totalUsd: number;
+  days: Array<{ date: string; costUsd: number; runs: number }>;
+  sessions: Array<{ sessionId: string; costUsd: number; runs: number; lastRunAt: number }>;
+}
+
+export interface BudgetLimits {
+  softUsd?: number;
+  hardUsd?: number;
+}
+
+export interface BudgetStatus {
+  scope: "session" | "project" | "daily";
+  spentUsd: number;
+  softUsd?: number;
+  hardUsd?: number;
+  state: "ok" | "warning" | "exceeded";
+}
+
+// A named system prompt for sessions in this project
+export interface PromptPreset {
+  id: string;
+  name: string;
+  systemPrompt?: string;
+  appendSystemPrompt?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Tools Claude may use for a message
+export interface ToolProfile {
+  id: string;
+  name: string;
+  allowedTools: string[];
+  disallowedTools: string[];
+  builtIn?: boolean;
+}
+
+export interface HookStatus {
+  configured: boolean;
+  globalConfigured: boolean;
+  projectConfigured: boolean;
+  hookScriptPath: string;
+  globalSettingsPath: string;
+  projectSettingsPath: string;
+  cwd: string;
+}
+
+export interface HealthCheck {
+  id: "cli" | "auth" | "cwd" | "git" | "hook";
+  label: string;
+  ok: boolean;
+  detail: string;
+  fix?: string;
+}
+
+// GET /api/health
+export interface HealthReport {
+  ok: boolean;
+  claude: { path: string | null; version: string | null };
+  auth: { authenticated: boolean; method: string | null };
+  cwd: { path: string; exists: boolean; gitRoot: string | null };
+  hooks: HookStatus;
+  checks: HealthCheck[];
+}
+
+export interface PendingPermission {
+  id: string;
+  sessionId: string;
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface RunSummary {
+  requestId: string;
+  sessionId?: string;
+  message: string;
+  status: "running" | "completed" | "failed" | "aborted";
+  startedAt: number;
+  finishedAt?: number;
+  toolProfile?: string;
+}
+
+export interface QueuedMessage {
+  id: string;
+  sessionId: string;
+  message: string;
+  permissionMode?: string;
+  model?: string;
+  presetId?: string;
+  toolProfileId?: string;
+  maxTurns?: number;
+  timeLimitMs?: number;
+  createdAt: number;
+}
+
+// Events pushed by the server over /api/ws
+export type ServerEvent =
+  | { type: "permissions_snapshot"; pending: PendingPermission[] }
+  | { type: "permission_request"; permission: PendingPermission }
+  | { type: "permission_resolved"; id: string; allow: boolean; reason: string }
+  | { type: "run_started"; requestId: string; sessionId?: string }
+  | {
+      type: "run_finished";
+      requestId: string;
+      sessionId?: string;
+      success: boolean;
+      aborted?: boolean;
+      code?: ChatErrorCode;
+    }
+  | { type: "queue_updated"; sessionId: string; queue: QueuedMessage[] }
+  | { type: "session_titled"; sessionId: string; title: string }
+  | { type: "session_message"; requestId: string; sessionId: string; event: unknown };
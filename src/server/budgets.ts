@@ -0,0 +1,152 @@
+import { createJsonStore } from "./store";
+import { readLedger, toDateKey, type LedgerEntry } from "./ledger";
+import type { StreamMessage, TokenUsage } from "./runs";
+
+// Warn at this share of a hard limit when no soft limit is set
+const DEFAULT_SOFT_RATIO = 0.8;
+
+export interface BudgetLimits {
+  softUsd?: number;
+  hardUsd?: number;
+}
+
+export interface BudgetConfig {
+  // Spend today, across all projects
+  daily: BudgetLimits;
+  // Spend this calendar month, per project directory
+  projects: Record<string, BudgetLimits>;
+  // Applies to every session without its own limits
+  sessionDefault: BudgetLimits;
+  sessions: Record<string, BudgetLimits>;
+}
+
+export type BudgetScope = "session" | "project" | "daily";
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  spentUsd: number;
+  softUsd?: number;
+  hardUsd?: number;
+  state: "ok" | "warning" | "exceeded";
+}
+
+const store = createJsonStore<BudgetConfig>("budgets.json", () => ({
+  daily: {},
+  projects: {},
+  sessionDefault: {},
+  sessions: {},
+}));
+
+export function getBudgetConfig(): Promise<BudgetConfig> {
+  return store.read();
+}
+
+export function updateBudgetConfig(update: {
+  daily?: BudgetLimits;
+  project?: { cwd: string; limits: BudgetLimits };
+  sessionDefault?: BudgetLimits;
+  session?: { sessionId: string; limits: BudgetLimits };
+}): Promise<BudgetConfig> {
+  return store.update((config) => {
+    if (update.daily) config.daily = update.daily;
+    if (update.sessionDefault) config.sessionDefault = update.sessionDefault;
+    if (update.project) config.projects[update.project.cwd] = update.project.limits;
+    if (update.session) config.sessions[update.session.sessionId] = update.session.limits;
+  });
+}
+
+function toStatus(scope: BudgetScope, spentUsd: number, limits: BudgetLimits): BudgetStatus {
+  const hardUsd = limits.hardUsd || undefined;
+  const softUsd = limits.softUsd || (hardUsd ? hardUsd * DEFAULT_SOFT_RATIO : undefined);
+
+  let state: BudgetStatus["state"] = "ok";
+  if (hardUsd !== undefined && spentUsd >= hardUsd) state = "exceeded";
+  else if (softUsd !== undefined && spentUsd >= softUsd) state = "warning";
+
+  return { scope, spentUsd, softUsd, hardUsd, state };
+}
+
+const sum = (entries: LedgerEntry[]) => entries.reduce((total, entry) => total + entry.costUsd, 0);
+
+// Spending against every budget that applies to a run in this project/session
+export async function getBudgetStatus(cwd: string, sessionId?: string): Promise<BudgetStatus[]> {
+  const config = await getBudgetConfig();
+  const entries = await readLedger();
+  const today = toDateKey(Date.now());
+  const month = today.slice(0, 7);
+
+  const statuses = [
+    toStatus("daily", sum(entries.filter((e) => toDateKey(e.timestamp) === today)), config.daily),
+    toStatus(
+      "project",
+      sum(entries.filter((e) => e.cwd === cwd && toDateKey(e.timestamp).startsWith(month))),
+      config.projects[cwd] || {}
+    ),
+  ];
+
+  if (sessionId) {
+    statuses.unshift(
+      toStatus(
+        "session",
+        sum(entries.filter((e) => e.sessionId === sessionId)),
+        config.sessions[sessionId] || config.sessionDefault
+      )
+    );
+  }
+
+  return statuses;
+}
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  session: "session",
+  project: "monthly project",
+  daily: "daily",
+};
+
+export function describeExceeded(status: BudgetStatus): string {
+  return `The ${SCOPE_LABELS[status.scope]} budget of $${status.hardUsd?.toFixed(2)} has been reached ($${status.spentUsd.toFixed(2)} spent). Raise it to keep going.`;
+}
+
+// USD per million tokens. Only used to estimate a run's cost while it is
+// still going; the real figure comes from claude's result event.
+const PRICES: Array<{ match: RegExp; input: number; output: number }> = [
+  { match: /opus-4-[5-9]/, input: 5, output: 25 },
+  { match: /opus/, input: 15, output: 75 },
+  { match: /haiku/, input: 1, output: 5 },
+  { match: /sonnet|.*/, input: 3, output: 15 },
+];
+
+export function estimateMessageCost(model: string | undefined, usage: TokenUsage): number {
+  const price = PRICES.find((p) => p.match.test(model || "")) || PRICES[PRICES.length - 1]!;
+  const input =
+    (usage.input_tokens || 0) +
+    (usage.cache_read_input_tokens || 0) * 0.1 +
+    (usage.cache_creation_input_tokens || 0) * 1.25;
+  return (input * price.input + (usage.output_tokens || 0) * price.output) / 1_000_000;
+}
+
+// Tracks a running run's estimated spend and reports when it crosses a hard limit
+export function createBudgetGuard(statuses: BudgetStatus[]) {
+  const costByMessage = new Map<string, number>();
+  // The tightest remaining hard limit across all scopes
+  const headroom = Math.min(
+    ...statuses.filter((s) => s.hardUsd !== undefined).map((s) => s.hardUsd! - s.spentUsd)
+  );
+  const limiting = statuses.find((s) => s.hardUsd !== undefined && s.hardUsd - s.spentUsd === headroom);
+
+  const estimate = () => Array.from(costByMessage.values()).reduce((a, b) => a + b, 0);
+
+  return {
+    estimatedUsd: estimate,
+    // Returns a reason to stop the run, or null while it's within budget
+    observe(event: StreamMessage): string | null {
+      if (!limiting || event.type !== "assistant" || !event.message?.id || !event.message.usage) {
+        return null;
+      }
+      costByMessage.set(event.message.id, estimateMessageCost(event.message.model, event.message.usage));
+
+      if (estimate() < headroom) return null;
+      return describeExceeded({ ...limiting, spentUsd: limiting.spentUsd + estimate(), state: "exceeded" });
+    },
+  };
+}
@@ -0,0 +1,37 @@
+export interface CommandOptions {
+  cwd?: string;
+  // Killed after this long, and reported as failed
+  timeoutMs: number;
+  // Keep stderr for error messages; it's ignored otherwise
+  stderr?: boolean;
+}
+
+export interface CommandResult {
+  ok: boolean;
+  exitCode: number | null;
+  stdout: string;
+  // Also the error when the command couldn't be started
+  stderr: string;
+}
+
+// Run a short command to completion
+export async function runCommand(cmd: string[], options: CommandOptions): Promise<CommandResult> {
+  try {
+    const proc = Bun.spawn(cmd, {
+      cwd: options.cwd,
+      stdin: "ignore",
+      stdout: "pipe",
+      stderr: options.stderr ? "pipe" : "ignore",
+    });
+    const timer = setTimeout(() => proc.kill(), options.timeoutMs);
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      proc.stderr ? new Response(proc.stderr).text() : "",
+    ]);
+    await proc.exited;
+    clearTimeout(timer);
+    return { ok: proc.exitCode === 0, exitCode: proc.exitCode, stdout, stderr };
+  } catch (error) {
+    return { ok: false, exitCode: null, stdout: "", stderr: error instanceof Error ? error.message : String(error) };
+  }
+}
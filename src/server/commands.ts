@@ -0,0 +1,72 @@
+import path from "path";
+
+export interface SlashCommand {
+  // Without the leading slash
+  name: string;
+  description: string;
+  argumentHint?: string;
+  source: "builtin" | "project" | "user";
+  // Subdirectory of .claude/commands the command lives in, e.g. "frontend"
+  namespace?: string;
+}
+
+// Built-in commands that do something useful in a non-interactive (`-p`) run
+const BUILT_IN_COMMANDS: SlashCommand[] = [
+  { name: "compact", description: "Summarize the conversation to free up context", argumentHint: "[instructions]", source: "builtin" },
+  { name: "context", description: "Show what is using the context window", source: "builtin" },
+  { name: "cost", description: "Show the cost and duration of this session", source: "builtin" },
+  { name: "init", description: "Create a CLAUDE.md describing this project", source: "builtin" },
+  { name: "review", description: "Review a pull request", argumentHint: "[pr number]", source: "builtin" },
+  { name: "pr-comments", description: "Show the comments on a pull request", argumentHint: "[pr number]", source: "builtin" },
+  { name: "security-review", description: "Review the pending changes for security issues", source: "builtin" },
+];
+
+// `key: value` lines between leading `---` fences; enough for command files
+function parseFrontmatter(content: string): { fields: Record<string, string>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(content);
+  if (!match) return { fields: {}, body: content };
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1]!.split(/\r?\n/)) {
+    const field = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (field) fields[field[1]!] = field[2]!.trim().replace(/^(["'])(.*)\1$/, "$2");
+  }
+  return { fields, body: content.slice(match[0].length) };
+}
+
+async function readCommandDir(dir: string, source: "project" | "user"): Promise<SlashCommand[]> {
+  const commands: SlashCommand[] = [];
+  try {
+    for await (const file of new Bun.Glob("**/*.md").scan({ cwd: dir })) {
+      const { fields, body } = parseFrontmatter(await Bun.file(path.join(dir, file)).text());
+      const namespace = path.dirname(file);
+      // Without a description the CLI shows the prompt's first line
+      const firstLine = body.split("\n").find((line) => line.trim())?.trim() || "";
+      commands.push({
+        name: path.basename(file, ".md"),
+        description: fields.description || firstLine.slice(0, 100),
+        ...(fields["argument-hint"] && { argumentHint: fields["argument-hint"] }),
+        source,
+        ...(namespace !== "." && { namespace: namespace.split(path.sep).join(":") }),
+      });
+    }
+  } catch {
+    // No commands directory
+  }
+  return commands;
+}
+
+// Built-ins, then the project's commands, then the user's. When names clash the
+// project's command wins over a built-in, and both win over the user's.
+export async function listCommands(cwd: string): Promise<SlashCommand[]> {
+  const [project, user] = await Promise.all([
+    readCommandDir(path.join(cwd, ".claude/commands"), "project"),
+    readCommandDir(`${process.env.HOME}/.claude/commands`, "user"),
+  ]);
+
+  const byName = new Map<string, SlashCommand>();
+  for (const command of [...user, ...BUILT_IN_COMMANDS, ...project]) byName.set(command.name, command);
+
+  const order = { builtin: 0, project: 1, user: 2 };
+  return [...byName.values()].sort((a, b) => order[a.source] - order[b.source] || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,84 @@
+import path from "path";
+import { readdir, realpath, stat } from "fs/promises";
+
+// Extra directories a session can give Claude access to (`--add-dir`) must sit
+// under one of these roots. None unless CLAUDE_ALLOWED_ROOTS lists some.
+export function getAllowedRoots(): string[] {
+  const configured = process.env.CLAUDE_ALLOWED_ROOTS;
+  if (!configured) return [];
+  return configured
+    .split(path.delimiter)
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map((root) => path.resolve(root));
+}
+
+function isInside(dir: string, root: string): boolean {
+  const relative = path.relative(root, dir);
+  return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+// Resolve a requested directory, or explain why it can't be added
+export async function validateDirectory(
+  cwd: string,
+  input: string
+): Promise<{ path: string } | { error: string }> {
+  let resolved: string;
+  try {
+    resolved = await realpath(path.resolve(cwd, input));
+    if (!(await stat(resolved)).isDirectory()) return { error: `${input} is not a directory` };
+  } catch {
+    return { error: `${input} does not exist` };
+  }
+
+  if (resolved === (await realpath(cwd).catch(() => cwd))) {
+    return { error: `${input} is already the project directory` };
+  }
+
+  const roots = getAllowedRoots();
+  if (roots.length === 0) {
+    return { error: "No extra directories are allowed. Set CLAUDE_ALLOWED_ROOTS on the server to allow some." };
+  }
+  // Compare real paths so symlinks can't step outside a root
+  const realRoots = await Promise.all(roots.map((root) => realpath(root).catch(() => root)));
+  if (!realRoots.some((root) => isInside(resolved, root))) {
+    return { error: `${input} is outside the allowed roots (${roots.join(", ")})` };
+  }
+
+  return { path: resolved };
+}
+
+export async function validateDirectories(
+  cwd: string,
+  inputs: string[]
+): Promise<{ paths: string[] } | { error: string }> {
+  const paths: string[] = [];
+  for (const input of inputs) {
+    const result = await validateDirectory(cwd, input);
+    if ("error" in result) return result;
+    if (!paths.includes(result.path)) paths.push(result.path);
+  }
+  return { paths };
+}
+
+// Directories right under each allowed root, offered as suggestions in the UI
+export async function listRootDirectories(cwd: string): Promise<string[]> {
+  const suggestions: string[] = [];
+  for (const root of getAllowedRoots()) {
+    try {
+      const entries = await readdir(root, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+        const dir = path.join(root, entry.name);
+        if (dir !== cwd) suggestions.push(dir);
+      }
+    } catch {
+      // Missing or unreadable root
+    }
+  }
+  return suggestions.sort();
+}
+
+export function directoryArgs(dirs?: string[]): string[] {
+  return (dirs || []).flatMap((dir) => ["--add-dir", dir]);
+}
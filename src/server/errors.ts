@@ -0,0 +1,92 @@
+// Sorts failed claude runs into categories the client can act on
+
+export type RunErrorCode =
+  | "cli_not_found"
+  | "not_authenticated"
+  | "rate_limited"
+  | "context_too_long"
+  | "max_turns"
+  | "killed"
+  | "unknown";
+
+export interface RunError {
+  code: RunErrorCode;
+  error: string;
+}
+
+export interface FailureDetails {
+  // Thrown by Bun.spawn, e.g. when claude isn't on PATH
+  spawnError?: unknown;
+  exitCode?: number | null;
+  signalCode?: string | null;
+  stderr?: string;
+  // Subtype and text of claude's "result" event, if it got that far
+  resultSubtype?: string;
+  resultText?: string;
+  output?: string;
+}
+
+// Checked in order against stderr and the result text
+const PATTERNS: Array<{ code: RunErrorCode; match: RegExp }> = [
+  {
+    code: "not_authenticated",
+    match: /invalid api key|please run \/login|not logged in|authentication_error|oauth token has expired|credentials/i,
+  },
+  {
+    code: "rate_limited",
+    match: /rate.?limit|usage limit|too many requests|overloaded_error|\b429\b|\b529\b/i,
+  },
+  {
+    code: "context_too_long",
+    match: /prompt is too long|context (length|window)|maximum context|too many tokens/i,
+  },
+];
+
+const MESSAGES: Record<RunErrorCode, string> = {
+  cli_not_found: "The claude CLI was not found on the server's PATH",
+  not_authenticated: "Claude is not logged in on the server",
+  rate_limited: "Claude is rate limited right now",
+  context_too_long: "The conversation is too long for the model's context window",
+  max_turns: "Claude stopped after reaching the maximum number of turns",
+  killed: "The claude process was killed before it finished",
+  unknown: "Claude failed",
+};
+
+function isNotFound(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const code = (error as NodeJS.ErrnoException).code;
+  return code === "ENOENT" || /not found|no such file/i.test(error.message);
+}
+
+export function classifyError(details: FailureDetails): RunError {
+  const { spawnError, exitCode, signalCode, stderr, resultSubtype, resultText, output } = details;
+  // Whatever claude said about the failure, for display under the summary
+  const detail = (resultText || stderr || "").trim();
+  const withDetail = (code: RunErrorCode): RunError => ({
+    code,
+    error: detail && detail !== MESSAGES[code] ? `${MESSAGES[code]}: ${detail}` : MESSAGES[code],
+  });
+
+  if (spawnError !== undefined) {
+    if (isNotFound(spawnError)) return { code: "cli_not_found", error: MESSAGES.cli_not_found };
+    return {
+      code: "unknown",
+      error: spawnError instanceof Error ? spawnError.message : String(spawnError) || MESSAGES.unknown,
+    };
+  }
+
+  // 127 is the shell's "command not found"
+  if (exitCode === 127) return withDetail("cli_not_found");
+  if (resultSubtype === "error_max_turns") return { code: "max_turns", error: MESSAGES.max_turns };
+
+  const text = `${resultText || ""}\n${stderr || ""}`;
+  const pattern = PATTERNS.find((p) => p.match.test(text));
+  if (pattern) return withDetail(pattern.code);
+
+  if (signalCode) return { code: "killed", error: `${MESSAGES.killed} (${signalCode})` };
+
+  return {
+    code: "unknown",
+    error: detail || output || `Claude command failed with exit code ${exitCode}`,
+  };
+}
@@ -0,0 +1,59 @@
+import type { QueuedMessage } from "./queue";
+import type { RunErrorCode } from "./errors";
+
+// Push channel for browsers connected to /api/ws
+export interface PermissionSummary {
+  id: string;
+  sessionId: string;
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  timestamp: number;
+}
+
+export type ServerEvent =
+  | { type: "permissions_snapshot"; pending: PermissionSummary[] }
+  | { type: "permission_request"; permission: PermissionSummary }
+  | { type: "permission_resolved"; id: string; allow: boolean; reason: string }
+  | { type: "run_started"; requestId: string; sessionId?: string }
+  | {
+      type: "run_finished";
+      requestId: string;
+      sessionId?: string;
+      success: boolean;
+      aborted?: boolean;
+      code?: RunErrorCode;
+    }
+  | { type: "queue_updated"; sessionId: string; queue: QueuedMessage[] }
+  | { type: "session_titled"; sessionId: string; title: string }
+  // A complete message (stream-json line) written to a session during a run
+  | { type: "session_message"; requestId: string; sessionId: string; event: unknown };
+
+interface EventSocket {
+  id: string;
+  send(data: string): unknown;
+}
+
+const sockets = new Map<string, EventSocket>();
+
+export function addSocket(ws: EventSocket) {
+  sockets.set(ws.id, ws);
+}
+
+export function removeSocket(ws: EventSocket) {
+  sockets.delete(ws.id);
+}
+
+export function sendEvent(ws: EventSocket, event: ServerEvent) {
+  ws.send(JSON.stringify(event));
+}
+
+export function broadcast(event: ServerEvent) {
+  const payload = JSON.stringify(event);
+  for (const ws of sockets.values()) {
+    try {
+      ws.send(payload);
+    } catch {
+      // Socket closed mid-send, close handler will drop it
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import path from "path";
+import { readdir } from "fs/promises";
+import { runCommand } from "./command";
+
+// Index of the project's files (relative paths) for @-mention autocomplete.
+// Rebuilding it is cheap but not free on big repos, so it's kept for a while.
+const INDEX_TTL_MS = 30_000;
+const MAX_FILES = 50_000;
+const LIST_TIMEOUT_MS = 10_000;
+
+// Skipped when walking a directory that isn't a git repository
+const ALWAYS_IGNORED = new Set([".git", "node_modules"]);
+
+const indexes = new Map<string, { files: string[]; builtAt: number }>();
+
+async function gitLsFiles(cwd: string, args: string[]): Promise<string[] | null> {
+  const result = await runCommand(["git", "ls-files", "-z", ...args], { cwd, timeoutMs: LIST_TIMEOUT_MS });
+  return result.ok ? result.stdout.split("\0").filter(Boolean) : null;
+}
+
+// Tracked and untracked files, minus whatever .gitignore excludes. Null outside a repo.
+async function listGitFiles(cwd: string): Promise<string[] | null> {
+  const [files, deleted] = await Promise.all([
+    gitLsFiles(cwd, ["--cached", "--others", "--exclude-standard"]),
+    // Deleted files stay in the index until the deletion is staged
+    gitLsFiles(cwd, ["--deleted"]),
+  ]);
+  if (!files) return null;
+  const gone = new Set(deleted);
+  return [...new Set(files)].filter((file) => !gone.has(file)).slice(0, MAX_FILES);
+}
+
+// The top-level .gitignore's plain entries ("dist", "/build/", "*.log"); enough for a fallback
+async function readIgnorePatterns(cwd: string): Promise<RegExp[]> {
+  try {
+    const content = await Bun.file(path.join(cwd, ".gitignore")).text();
+    return content
+      .split("\n")
+      .map((line) => line.trim().replace(/^\//, "").replace(/\/$/, ""))
+      .filter((line) => line && !line.startsWith("#") && !line.startsWith("!") && !line.includes("/"))
+      .map((line) => new RegExp(`^${line.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`));
+  } catch {
+    return [];
+  }
+}
+
+async function walkFiles(cwd: string): Promise<string[]> {
+  const ignored = await readIgnorePatterns(cwd);
+  const isIgnored = (name: string) => ALWAYS_IGNORED.has(name) || ignored.some((pattern) => pattern.test(name));
+  const files: string[] = [];
+  const pending = [""];
+
+  while (pending.length > 0 && files.length < MAX_FILES) {
+    const dir = pending.shift()!;
+    let entries;
+    try {
+      entries = await readdir(path.join(cwd, dir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (isIgnored(entry.name)) continue;
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) pending.push(relative);
+      else if (entry.isFile()) files.push(relative);
+    }
+  }
+  return files;
+}
+
+export async function getFileIndex(cwd: string): Promise<string[]> {
+  const cached = indexes.get(cwd);
+  if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) return cached.files;
+
+  const files = (await listGitFiles(cwd)) ?? (await walkFiles(cwd));
+  indexes.set(cwd, { files, builtAt: Date.now() });
+  return files;
+}
+
+const isBoundary = (char: string | undefined) => char === undefined || "/._- ".includes(char);
+
+// Subsequence match, favouring runs of characters, word starts and the file name.
+// Null when the query's characters don't all appear in order.
+export function fuzzyScore(query: string, filePath: string): number | null {
+  const q = query.toLowerCase();
+  const target = filePath.toLowerCase();
+  const nameStart = target.lastIndexOf("/") + 1;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of q) {
+    const at = target.indexOf(char, from);
+    if (at === -1) return null;
+    score += 1;
+    if (at === previous + 1) score += 5;
+    if (isBoundary(target[at - 1])) score += 3;
+    if (at >= nameStart) score += 2;
+    previous = at;
+    from = at + 1;
+  }
+
+  if (target.slice(nameStart).startsWith(q)) score += 10;
+  // Shorter paths win ties
+  return score - filePath.length * 0.01;
+}
+
+export async function searchFiles(cwd: string, query: string, limit: number): Promise<string[]> {
+  const files = await getFileIndex(cwd);
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return [...files].sort((a, b) => a.length - b.length || a.localeCompare(b)).slice(0, limit);
+  }
+
+  const scored: Array<{ file: string; score: number }> = [];
+  for (const file of files) {
+    const score = fuzzyScore(trimmed, file);
+    if (score !== null) scored.push({ file, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ file }) => file);
+}
@@ -0,0 +1,168 @@
+import path from "path";
+import { stat } from "fs/promises";
+import { runCommand } from "./command";
+
+// How long `claude --version` and friends may take before we give up on them
+const COMMAND_TIMEOUT_MS = 5000;
+
+const HOOK_SCRIPT_PATH = path.join(import.meta.dir, "../../scripts/permission-hook.sh");
+
+export interface HookStatus {
+  configured: boolean;
+  globalConfigured: boolean;
+  projectConfigured: boolean;
+  hookScriptPath: string;
+  globalSettingsPath: string;
+  projectSettingsPath: string;
+  cwd: string;
+}
+
+export interface HealthCheck {
+  id: "cli" | "auth" | "cwd" | "git" | "hook";
+  label: string;
+  ok: boolean;
+  detail: string;
+  // What to do about a failed check
+  fix?: string;
+}
+
+export interface HealthReport {
+  ok: boolean;
+  claude: { path: string | null; version: string | null };
+  auth: { authenticated: boolean; method: string | null };
+  cwd: { path: string; exists: boolean; gitRoot: string | null };
+  hooks: HookStatus;
+  checks: HealthCheck[];
+}
+
+// Trimmed stdout of a short command, or null if it failed
+async function commandOutput(cmd: string[], cwd?: string): Promise<string | null> {
+  const result = await runCommand(cmd, { cwd, timeoutMs: COMMAND_TIMEOUT_MS });
+  return result.ok ? result.stdout.trim() : null;
+}
+
+async function settingsHaveHook(filePath: string): Promise<boolean> {
+  try {
+    const content = await Bun.file(filePath).text();
+    const settings = JSON.parse(content);
+    // Check for PreToolUse hook (primary) or PermissionRequest (legacy)
+    const hooks = settings?.hooks?.PreToolUse || settings?.hooks?.PermissionRequest;
+    if (!Array.isArray(hooks)) return false;
+    // Check if any hook points to our script
+    return hooks.some((h: { hooks?: Array<{ command?: string }> }) =>
+      h.hooks?.some((hook) => hook.command?.includes("permission-hook.sh"))
+    );
+  } catch {
+    return false;
+  }
+}
+
+export async function getHookStatus(cwd: string): Promise<HookStatus> {
+  const globalSettingsPath = `${process.env.HOME}/.claude/settings.json`;
+  const projectSettingsPath = path.join(cwd, ".claude/settings.json");
+
+  const globalConfigured = await settingsHaveHook(globalSettingsPath);
+  const projectConfigured = await settingsHaveHook(projectSettingsPath);
+
+  return {
+    configured: globalConfigured || projectConfigured,
+    globalConfigured,
+    projectConfigured,
+    hookScriptPath: HOOK_SCRIPT_PATH,
+    globalSettingsPath,
+    projectSettingsPath,
+    cwd,
+  };
+}
+
+// How claude would authenticate, or null if we can't find any credentials
+async function findAuthMethod(): Promise<string | null> {
+  if (process.env.ANTHROPIC_API_KEY) return "ANTHROPIC_API_KEY";
+  if (process.env.CLAUDE_CODE_OAUTH_TOKEN) return "CLAUDE_CODE_OAUTH_TOKEN";
+  if (process.env.CLAUDE_CODE_USE_BEDROCK || process.env.CLAUDE_CODE_USE_VERTEX) return "cloud provider";
+
+  const configDir = process.env.CLAUDE_CONFIG_DIR || path.join(process.env.HOME || "", ".claude");
+  if (await Bun.file(path.join(configDir, ".credentials.json")).exists()) return "claude login";
+
+  // On macOS, `claude /login` keeps its token in the keychain instead
+  if (process.platform === "darwin") {
+    const found = await commandOutput(["security", "find-generic-password", "-s", "Claude Code-credentials"]);
+    if (found !== null) return "claude login (keychain)";
+  }
+  return null;
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await stat(dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+export async function checkHealth(cwd: string): Promise<HealthReport> {
+  const claudePath = Bun.which("claude");
+  const [version, authMethod, exists, hooks] = await Promise.all([
+    claudePath ? commandOutput([claudePath, "--version"]) : Promise.resolve(null),
+    findAuthMethod(),
+    isDirectory(cwd),
+    getHookStatus(cwd),
+  ]);
+  const gitRoot = exists ? await commandOutput(["git", "rev-parse", "--show-toplevel"], cwd) : null;
+
+  const checks: HealthCheck[] = [
+    {
+      id: "cli",
+      label: "Claude CLI",
+      ok: !!claudePath && !!version,
+      detail: claudePath
+        ? `${claudePath}${version ? ` (${version})` : " - `claude --version` failed"}`
+        : "Not found on PATH",
+      fix: "Install it with `npm install -g @anthropic-ai/claude-code` and restart the server",
+    },
+    {
+      id: "auth",
+      label: "Authentication",
+      ok: !!authMethod,
+      detail: authMethod ? `Using ${authMethod}` : "No credentials found",
+      fix: "Run `claude` in a terminal on this machine and log in with /login, or set ANTHROPIC_API_KEY",
+    },
+    {
+      id: "cwd",
+      label: "Working directory",
+      ok: exists,
+      detail: exists ? cwd : `${cwd} does not exist`,
+      fix: "Set CLAUDE_CWD to an existing directory and restart the server",
+    },
+    {
+      id: "git",
+      label: "Git repository",
+      ok: !!gitRoot,
+      detail: gitRoot ? gitRoot : "Not a git repository",
+      fix: "Run `git init` in the working directory to track Claude's changes",
+    },
+    {
+      id: "hook",
+      label: "Permission hook",
+      ok: hooks.configured,
+      detail: hooks.configured
+        ? `Configured in ${hooks.globalConfigured ? "global" : "project"} settings`
+        : "Not configured",
+      fix: "Add the permission hook to Claude's settings so tool approvals reach this app",
+    },
+  ];
+
+  for (const check of checks) {
+    if (check.ok) delete check.fix;
+  }
+
+  return {
+    // A missing git repo doesn't stop chats from working
+    ok: checks.every((check) => check.ok || check.id === "git"),
+    claude: { path: claudePath, version },
+    auth: { authenticated: !!authMethod, method: authMethod },
+    cwd: { path: cwd, exists, gitRoot },
+    hooks,
+    checks,
+  };
+}
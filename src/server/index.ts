@@ -1,12 +1,112 @@
-import { Elysia, t } from "elysia";
+import { Elysia, status, t } from "elysia";
 import { cors } from "@elysiajs/cors";
 import path from "path";
+import {
+  addSocket,
+  broadcast,
+  removeSocket,
+  sendEvent,
+  type PermissionSummary,
+} from "./events";
+import { getSessionMeta, listSessionMeta, normalizeTags, updateSessionMeta, type SessionMeta } from "./session-meta";
+import {
+  abortRun,
+  checkRunAllowed,
+  countRunningRuns,
+  getActiveRun,
+  getRun,
+  listRuns,
+  MAX_CONCURRENT_RUNS,
+  onRunFinished,
+  runEventStream,
+  startRun,
+  toRunSummary,
+} from "./runs";
+import {
+  enqueueMessage,
+  findQueuedMessage,
+  getQueue,
+  moveToFront,
+  queuedSessionIds,
+  removeQueuedMessage,
+  reorderQueue,
+} from "./queue";
+import { readLedger, recordRun, summarizeUsage } from "./ledger";
+import type { RunUsage } from "./runs";
+import {
+  createBudgetGuard,
+  describeExceeded,
+  getBudgetConfig,
+  getBudgetStatus,
+  updateBudgetConfig,
+  type BudgetStatus,
+} from "./budgets";
+import { checkHealth, getHookStatus } from "./health";
+import { titleSession } from "./titles";
+import {
+  createPreset,
+  deletePreset,
+  getPreset,
+  listPresets,
+  presetArgs,
+  updatePreset,
+  type PromptPreset,
+} from "./presets";
+import {
+  BUILT_IN_PROFILES,
+  createToolProfile,
+  deleteToolProfile,
+  getToolProfile,
+  listToolProfiles,
+  toolProfileArgs,
+  updateToolProfile,
+  type ToolProfile,
+} from "./tool-profiles";
+import { buildImageMessage, claimUploads, MAX_IMAGE_BYTES, resolveUpload, saveUpload } from "./uploads";
+import { directoryArgs, getAllowedRoots, listRootDirectories, validateDirectories } from "./directories";
+import { searchFiles } from "./files";
+import { listCommands } from "./commands";
+import {
+  createProject,
+  DEFAULT_PROJECT_ID,
+  defaultProject,
+  deleteProject,
+  getProject,
+  listProjects,
+  renameProject,
+  type Project,
+} from "./projects";
+import { forkSession, listSessions, SESSION_ID_PATTERN, sessionFilePath, sessionsDir } from "./sessions";
+import {
+  listRemovedSessions,
+  purgeTrash,
+  removeSession,
+  restoreSession,
+  TRASH_RETENTION_MS,
+  type RemovedInfo,
+  type RemovedState,
+} from "./session-archive";
+import {
+  attachSession,
+  createWorktree,
+  deleteWorktree,
+  discardWorktree,
+  getSessionWorktree,
+  keepWorktree,
+  listWorktrees,
+  mergeWorktree,
+  type Worktree,
+} from "./worktrees";
 
-const CLAUDE_CWD = process.env.CLAUDE_CWD || process.cwd();
 const DIST_DIR = path.join(import.meta.dir, "../../dist");
 
-// Track running processes for abort functionality
-const runningProcesses = new Map<string, { proc: ReturnType<typeof Bun.spawn>; aborted: boolean }>();
+// Model aliases the UI may ask for, passed through to `claude --model`
+const ALLOWED_MODELS = ["opus", "sonnet", "haiku"];
+
+function validateModel(model?: string): string | null {
+  if (!model || ALLOWED_MODELS.includes(model)) return null;
+  return `Unknown model "${model}". Allowed models: ${ALLOWED_MODELS.join(", ")}`;
+}
 
 // Permission request handling
 interface PermissionRequest {
@@ -30,141 +130,472 @@ interface PermissionDecision {
 
 const pendingPermissions = new Map<string, PermissionRequest>();
 
-interface StreamMessage {
-  type: string;
-  message?: {
-    content?: Array<{
-      type: string;
-      text?: string;
-      thinking?: string;
-    }>;
+function toPermissionSummary(p: PermissionRequest): PermissionSummary {
+  return {
+    id: p.id,
+    sessionId: p.sessionId,
+    toolName: p.toolName,
+    toolInput: p.toolInput,
+    timestamp: p.timestamp,
   };
-  result?: string;
 }
 
-function parseStreamOutput(output: string): { thinking: string[]; response: string } {
-  const lines = output.trim().split("\n");
-  const thinking: string[] = [];
-  let response = "";
+interface ChatRunOptions {
+  requestId: string;
+  // Project directory claude runs in
+  cwd: string;
+  message: string;
+  sessionId?: string;
+  permissionMode?: string;
+  model?: string;
+  // Preset picked for this message; "" clears the session's preset
+  presetId?: string;
+  // Prompt preset the session runs with, resolved from presetId or the session
+  preset?: PromptPreset;
+  // Tools this message may use
+  toolProfile?: ToolProfile;
+  // Optional limits on agent turns and wall-clock time
+  maxTurns?: number;
+  timeLimitMs?: number;
+  // Extra directories Claude may access, already validated
+  additionalDirs?: string[];
+  // The session's own git worktree, which claude runs in instead of cwd
+  worktree?: Worktree;
+  // Stream-json user message with attached images, sent on stdin instead of `-p <message>`
+  imageInput?: string;
+  // Upload IDs of those images, filed under the session once it has an ID
+  attachments?: string[];
+  // The session a new one started from, e.g. by editing its first prompt
+  forkedFrom?: SessionMeta["forkedFrom"];
+  // Spending against each budget when the run starts
+  budget: BudgetStatus[];
+}
 
-  for (const line of lines) {
-    try {
-      const parsed: StreamMessage = JSON.parse(line);
+function launchChatRun(options: ChatRunOptions) {
+  const { requestId, cwd, message, sessionId, permissionMode, model, presetId, preset, toolProfile, budget } = options;
+  const { maxTurns, timeLimitMs, additionalDirs, worktree, imageInput, attachments, forkedFrom } = options;
+  const args = [
+    "-p",
+    ...(imageInput ? ["--input-format", "stream-json"] : [message]),
+    "--permission-mode",
+    permissionMode || "default",
+    "--output-format",
+    "stream-json",
+    "--verbose",
+    "--include-partial-messages",
+  ];
+
+  if (model) {
+    args.push("--model", model);
+  }
 
-      if (parsed.type === "assistant" && parsed.message?.content) {
-        for (const block of parsed.message.content) {
-          if (block.type === "thinking" && block.thinking) {
-            thinking.push(block.thinking);
-          }
-          if (block.type === "text" && block.text) {
-            response += block.text;
-          }
-        }
-      }
+  args.push(...presetArgs(preset), ...toolProfileArgs(toolProfile));
 
-      if (parsed.type === "result" && parsed.result) {
-        if (!response) {
-          response = parsed.result;
-        }
+  if (maxTurns) {
+    args.push("--max-turns", String(maxTurns));
+  }
+
+  args.push(...directoryArgs(additionalDirs));
+
+  if (sessionId) {
+    args.push("--resume", sessionId);
+  }
+  // No flag = new session (don't use --continue as it resumes the last session)
+
+  const budgetGuard = createBudgetGuard(budget);
+
+  return startRun({
+    requestId,
+    message,
+    sessionId,
+    args,
+    cwd,
+    workDir: worktree?.path,
+    toolProfile: toolProfile?.name,
+    timeLimitMs,
+    stdin: imageInput,
+    // Stop the run once its estimated cost goes over a hard limit
+    onEvent: (run, event) => {
+      const overBudget = budgetGuard.observe(event);
+      if (overBudget) {
+        console.log(`[Budget] Stopping run ${run.requestId}: ${overBudget}`);
+        // Killed before claude reported its cost; bill the estimate so the budget still counts it
+        run.usage ??= {
+          costUsd: budgetGuard.estimatedUsd(),
+          durationMs: Date.now() - run.startedAt,
+          numTurns: 0,
+          inputTokens: 0,
+          outputTokens: 0,
+          cacheReadTokens: 0,
+          cacheCreationTokens: 0,
+        };
+        abortRun(run.requestId, overBudget, "budget");
       }
-    } catch {
-      // Skip non-JSON lines
-    }
+    },
+    // Remember the model, permission mode, preset, directories, worktree and fork source so later turns and reopening the session use them
+    onSessionId: (id) => {
+      if (worktree && !worktree.sessionId) {
+        attachSession(worktree, id).catch((err) => console.error("Failed to save session worktree:", err));
+      }
+      if (attachments?.length) {
+        claimUploads(attachments, id).catch((err) => console.error("Failed to move attachments:", err));
+      }
+      const patch = {
+        ...(model && { model }),
+        ...(permissionMode && { permissionMode }),
+        ...(presetId !== undefined && { presetId: presetId || undefined }),
+        ...(additionalDirs && { additionalDirs }),
+        ...(forkedFrom && { forkedFrom }),
+      };
+      if (Object.keys(patch).length > 0) {
+        updateSessionMeta(id, patch).catch((err) =>
+          console.error("Failed to save session settings:", err)
+        );
+      }
+    },
+  });
+}
+
+// The preset asked for, or else the one the session last used
+async function resolvePreset(cwd: string, sessionId?: string, presetId?: string): Promise<PromptPreset | undefined> {
+  const id = presetId ?? (sessionId ? (await getSessionMeta(sessionId)).presetId : undefined);
+  return id ? getPreset(cwd, id) : undefined;
+}
+
+async function validatePreset(cwd: string, presetId?: string): Promise<string | null> {
+  if (!presetId || (await getPreset(cwd, presetId))) return null;
+  return `Unknown preset "${presetId}"`;
+}
+
+async function validateToolProfile(cwd: string, toolProfileId?: string): Promise<string | null> {
+  if (!toolProfileId || (await getToolProfile(cwd, toolProfileId))) return null;
+  return `Unknown tool profile "${toolProfileId}"`;
+}
+
+// Merged or deleted worktrees are gone, and claude can't resume a session anywhere else
+function closedWorktreeError(worktree?: Worktree): string | null {
+  if (!worktree || worktree.status === "active" || worktree.status === "kept") return null;
+  return `This session's worktree was ${worktree.status}; start a new session to keep working`;
+}
+
+// The first budget that has been used up, if any
+async function findExceededBudget(cwd: string, sessionId?: string) {
+  const budget = await getBudgetStatus(cwd, sessionId);
+  return { budget, exceeded: budget.find((status) => status.state === "exceeded") };
+}
+
+// Start the session's next queued message as soon as its current run exits
+async function drainQueue(sessionId: string): Promise<void> {
+  const head = getQueue(sessionId)[0];
+  if (!head) return;
+
+  // Load everything up front: nothing may yield between the checks below and the launch
+  const [{ budget, exceeded }, meta, presets, toolProfiles, worktree, imageInput] = await Promise.all([
+    findExceededBudget(head.cwd, sessionId),
+    getSessionMeta(sessionId),
+    listPresets(head.cwd),
+    listToolProfiles(head.cwd),
+    getSessionWorktree(sessionId),
+    head.attachments?.length ? buildImageMessage(head.message, head.attachments) : undefined,
+  ]);
+
+  // Out of budget: the queue waits until a limit is raised
+  if (exceeded) return;
+
+  // Busy session or no free run slot; we'll try again when a run finishes
+  if (checkRunAllowed(sessionId)) return;
+  // Cancelled while we were loading; move on to whatever is first now
+  if (!removeQueuedMessage(head.id)) return drainQueue(sessionId);
+
+  if (typeof imageInput === "object") {
+    console.error(`[Queue] Sending without attachments: ${imageInput.error}`);
+  }
+
+  console.log(`[Queue] Starting queued message for session ${sessionId}`);
+  const presetId = head.presetId ?? meta.presetId;
+  const preset = presets.find((p) => p.id === presetId);
+  launchChatRun({
+    requestId: crypto.randomUUID(),
+    cwd: head.cwd,
+    message: head.message,
+    sessionId,
+    permissionMode: head.permissionMode,
+    model: head.model,
+    presetId: head.presetId,
+    preset,
+    toolProfile: toolProfiles.find((p) => p.id === head.toolProfileId),
+    maxTurns: head.maxTurns,
+    timeLimitMs: head.timeLimitMs,
+    additionalDirs: meta.additionalDirs,
+    worktree,
+    imageInput: typeof imageInput === "string" ? imageInput : undefined,
+    attachments: typeof imageInput === "string" ? head.attachments : undefined,
+    budget,
+  });
+}
+
+function drainAllQueues() {
+  for (const sessionId of queuedSessionIds()) {
+    drainQueue(sessionId);
+  }
+}
+
+onRunFinished((run) => {
+  const recorded = recordRun(run).catch((err) => console.error("Failed to record run usage:", err));
+
+  // Name new sessions after their first exchange, once its cost counts against the budgets
+  const { sessionId, result } = run;
+  if (sessionId && !run.resumed && result?.success && result.response) {
+    const exchange = { prompt: run.message, reply: result.response };
+    recorded
+      .then(() => titleSession(sessionId, run.cwd, exchange))
+      .catch((err) => console.error("Failed to save session title:", err));
   }
 
-  return { thinking, response };
+  // A freed slot may let other sessions' queues move too
+  drainAllQueues();
+});
+
+interface SortableSession {
+  modified: number;
+  createdAt?: number;
+  title?: string;
+  preview: string;
+}
+
+// Orders for ?sort= on the sessions list: newest activity, newest session, or by name
+const SESSION_SORTS: Record<"modified" | "created" | "title", (a: SortableSession, b: SortableSession) => number> = {
+  modified: (a, b) => b.modified - a.modified,
+  // Sessions from before we kept metadata only have their last change
+  created: (a, b) => (b.createdAt ?? b.modified) - (a.createdAt ?? a.modified),
+  title: (a, b) => (a.title || a.preview).localeCompare(b.title || b.preview),
+};
+
+// Archive or delete a session that isn't running
+async function moveSession(
+  sessionId: string,
+  cwd: string,
+  state: RemovedState
+): Promise<RemovedInfo | { error: string; status: number }> {
+  if (getActiveRun(sessionId) || getQueue(sessionId).length > 0) {
+    return { error: "Wait for the session's runs and queue to finish", status: 409 };
+  }
+  const worktree = await getSessionWorktree(sessionId);
+  if (worktree && worktree.cwd !== cwd) return { error: "Session not found", status: 404 };
+  const removed = await removeSession(sessionId, sessionFilePath(worktree?.path ?? cwd, sessionId), state);
+  if (!removed) return { error: "Session not found", status: 404 };
+  if ("error" in removed) return { error: removed.error, status: 409 };
+  return removed;
 }
 
+// Whether a session is one of the project's: its transcript, worktree or run is there
+async function isProjectSession(sessionId: string, cwd: string): Promise<boolean> {
+  const worktree = await getSessionWorktree(sessionId);
+  if (worktree) return worktree.cwd === cwd;
+  // New sessions may not have written their transcript yet
+  if (getActiveRun(sessionId)?.cwd === cwd) return true;
+  const { removed } = await getSessionMeta(sessionId);
+  if (removed) return path.dirname(removed.from) === sessionsDir(cwd);
+  return Bun.file(sessionFilePath(cwd, sessionId)).exists();
+}
+
+const sessionNotFound = (set: { status?: number | string }) => {
+  set.status = 404;
+  return { success: false, error: "Session not found" };
+};
+
+// Deleted sessions past their 30 days; also checked whenever something is deleted
+purgeTrash().catch((err) => console.error("Failed to empty the trash:", err));
+
+// A project's sessions, including the ones run in its worktrees; or its archived or deleted ones
+async function listProjectSessions(project: Project, view?: RemovedState) {
+  const worktrees = await listWorktrees(project.path);
+
+  if (view) {
+    // Removed transcripts remember the directory they came from
+    const branches = new Map<string, string | undefined>([
+      [sessionsDir(project.path), undefined],
+      ...worktrees.map((worktree) => [sessionsDir(worktree.path), worktree.branch] as const),
+    ]);
+    return (await listRemovedSessions(view))
+      .filter(({ removed }) => branches.has(path.dirname(removed.from)))
+      .map(({ removed, ...session }) => ({
+        ...session,
+        projectId: project.id,
+        branch: branches.get(path.dirname(removed.from)),
+        removedAt: removed.at,
+        ...(view === "trash" && { expiresAt: removed.at + TRASH_RETENTION_MS }),
+      }));
+  }
+
+  const sessions = (await listSessions(project.path)).map((session) => ({ ...session, projectId: project.id }));
+  // Sessions run in a worktree keep their transcripts under the worktree's path
+  for (const worktree of worktrees) {
+    const found = (await listSessions(worktree.path)).find((s) => s.id === worktree.sessionId);
+    if (found) sessions.push({ ...found, projectId: project.id, branch: worktree.branch });
+  }
+  return sessions;
+}
+
+// For every /api/sessions/:id route, so a crafted ID can't reach outside the transcript folders
+const sessionParams = t.Object({
+  id: t.String({ pattern: SESSION_ID_PATTERN }),
+});
+
+const budgetLimitsSchema = t.Object({
+  softUsd: t.Optional(t.Number({ minimum: 0 })),
+  hardUsd: t.Optional(t.Number({ minimum: 0 })),
+});
+
+const presetSchema = t.Object({
+  name: t.String({ minLength: 1 }),
+  systemPrompt: t.Optional(t.String()),
+  appendSystemPrompt: t.Optional(t.String()),
+});
+
+const toolProfileSchema = t.Object({
+  name: t.String({ minLength: 1 }),
+  allowedTools: t.Array(t.String()),
+  disallowedTools: t.Array(t.String()),
+});
+
+// Per-message limits; a run that hits one stops with stopReason "max_turns" or "time_limit"
+const runLimitsSchema = {
+  maxTurns: t.Optional(t.Integer({ minimum: 1 })),
+  timeLimitMs: t.Optional(t.Integer({ minimum: 1000 })),
+};
+
 const app = new Elysia()
   .use(cors())
+  // The project a request is for; everything below works in its directory
+  .resolve(async ({ headers, request }) => {
+    // Read ?project= from the URL itself; routes with a query schema drop unknown keys
+    const projectId =
+      headers["x-project-id"] || new URL(request.url).searchParams.get("project") || DEFAULT_PROJECT_ID;
+    const project = await getProject(projectId);
+    if (!project) return status(404, { success: false, error: `Unknown project "${projectId}"` });
+    return { project, cwd: project.path };
+  })
   .post(
     "/api/chat",
-    async ({ body }) => {
-      const { message, sessionId, requestId, permissionMode } = body;
-
-      try {
-        const args = [
-          "-p",
-          message,
-          "--permission-mode",
-          permissionMode || "default",
-          "--output-format",
-          "stream-json",
-          "--verbose",
-        ];
-
-        if (sessionId) {
-          args.push("--resume", sessionId);
-        }
-        // No flag = new session (don't use --continue as it resumes the last session)
-
-        const proc = Bun.spawn(["claude", ...args], {
-          cwd: CLAUDE_CWD,
-          stdout: "pipe",
-          stderr: "pipe",
-        });
+    async ({ body, set, cwd }) => {
+      const { message, sessionId, permissionMode, model, presetId, toolProfileId, maxTurns, timeLimitMs, attachments, queue } =
+        body;
+      const requestId = body.requestId || crypto.randomUUID();
+
+      const modelError =
+        validateModel(model) || (await validatePreset(cwd, presetId)) || (await validateToolProfile(cwd, toolProfileId));
+      if (modelError) {
+        set.status = 400;
+        return { success: false, error: modelError };
+      }
 
-        // Track process for potential abort
-        const processEntry = { proc, aborted: false };
-        if (requestId) {
-          runningProcesses.set(requestId, processEntry);
-        }
+      const dirs = body.additionalDirs ? await validateDirectories(cwd, body.additionalDirs) : null;
+      if (dirs && "error" in dirs) {
+        set.status = 400;
+        return { success: false, error: dirs.error };
+      }
 
-        const output = await new Response(proc.stdout).text();
-        const stderr = await new Response(proc.stderr).text();
+      const imageInput = attachments?.length ? await buildImageMessage(message, attachments) : undefined;
+      if (typeof imageInput === "object") {
+        set.status = 400;
+        return { success: false, error: imageInput.error };
+      }
 
-        await proc.exited;
+      const forkedFrom = sessionId ? undefined : body.forkedFrom;
+      if (forkedFrom && !(await isProjectSession(forkedFrom.sessionId, cwd))) return sessionNotFound(set);
+
+      // Async lookups come first so the run check and launch below can't interleave
+      const [{ budget, exceeded }, preset, toolProfile, meta, sessionWorktree] = await Promise.all([
+        findExceededBudget(cwd, sessionId),
+        resolvePreset(cwd, sessionId, presetId),
+        toolProfileId ? getToolProfile(cwd, toolProfileId) : undefined,
+        sessionId ? getSessionMeta(sessionId) : undefined,
+        getSessionWorktree(sessionId),
+      ]);
+
+      // Another project's worktree session
+      if (sessionWorktree && sessionWorktree.cwd !== cwd) return sessionNotFound(set);
+
+      const worktreeError = closedWorktreeError(sessionWorktree);
+      if (worktreeError) {
+        set.status = 409;
+        return { success: false, error: worktreeError };
+      }
 
-        // Clean up tracking
-        if (requestId) {
-          runningProcesses.delete(requestId);
+      // A new session may ask for a worktree of its own; it's thrown away again if the run can't start
+      let worktree = sessionWorktree;
+      if (body.worktree && !sessionId) {
+        const created = await createWorktree(cwd);
+        if ("error" in created) {
+          set.status = 400;
+          return { success: false, error: created.error };
         }
-
-        // Check if aborted
-        if (processEntry.aborted) {
-          return {
-            success: false,
-            aborted: true,
-            error: "Request aborted",
-          };
-        }
-
-        if (proc.exitCode !== 0) {
-          console.error("Claude failed with exit code:", proc.exitCode);
-          console.error("stderr:", stderr);
-          console.error("stdout:", output);
-          return {
-            success: false,
-            error: stderr || output || `Claude command failed with exit code ${proc.exitCode}`,
-          };
+        worktree = created;
+      }
+      const discardNewWorktree = () => {
+        if (worktree && worktree !== sessionWorktree) {
+          discardWorktree(worktree).catch((err) => console.error("Failed to remove worktree:", err));
         }
+      };
 
-        const { thinking, response } = parseStreamOutput(output);
+      if (getRun(requestId)) {
+        discardNewWorktree();
+        set.status = 409;
+        return { success: false, error: `Request ${requestId} already exists` };
+      }
 
-        console.log("Claude succeeded, response length:", response.length);
-        if (!response) {
-          console.log("Empty response, raw output:", output.slice(0, 500));
+      const rejection = checkRunAllowed(sessionId);
+      if (rejection) {
+        discardNewWorktree();
+        // Callers may ask to wait in the session's queue instead of failing
+        if (queue && sessionId) {
+          const item = enqueueMessage({
+            sessionId,
+            cwd,
+            message,
+            permissionMode,
+            model,
+            presetId,
+            toolProfileId,
+            maxTurns,
+            timeLimitMs,
+            attachments,
+          });
+          set.status = 202;
+          return { success: true, queued: true, item };
         }
+        set.status = rejection.code === "session_busy" ? 409 : 429;
+        return { success: false, ...rejection };
+      }
 
-        return {
-          success: true,
-          thinking,
-          response,
-        };
-      } catch (error: unknown) {
-        console.error("Chat error type:", typeof error);
-        console.error("Chat error:", error);
-        console.error("Chat error JSON:", JSON.stringify(error, null, 2));
-        const errorMsg = error instanceof Error
-          ? error.message
-          : typeof error === 'string'
-            ? error
-            : JSON.stringify(error) || "Unknown error";
-        return {
-          success: false,
-          error: errorMsg,
-        };
+      if (exceeded) {
+        discardNewWorktree();
+        set.status = 402;
+        return { success: false, code: "budget_exceeded", error: describeExceeded(exceeded), budget };
       }
+
+      const run = launchChatRun({
+        requestId,
+        cwd,
+        message,
+        sessionId,
+        permissionMode,
+        model,
+        presetId,
+        preset,
+        toolProfile,
+        maxTurns,
+        timeLimitMs,
+        additionalDirs: dirs ? dirs.paths : meta?.additionalDirs,
+        worktree,
+        imageInput,
+        attachments,
+        forkedFrom,
+        budget,
+      });
+
+      return runEventStream(run);
     },
     {
       body: t.Object({
@@ -172,22 +603,37 @@ const app = new Elysia()
         sessionId: t.Optional(t.String()),
         requestId: t.Optional(t.String()),
         permissionMode: t.Optional(t.String()),
+        model: t.Optional(t.String()),
+        presetId: t.Optional(t.String()),
+        toolProfileId: t.Optional(t.String()),
+        ...runLimitsSchema,
+        // Replaces the session's extra directories
+        additionalDirs: t.Optional(t.Array(t.String())),
+        // Upload IDs from /api/uploads
+        attachments: t.Optional(t.Array(t.String())),
+        // Run a new session in its own git worktree
+        worktree: t.Optional(t.Boolean()),
+        // Record a new session as a fork of another, e.g. when its first prompt was edited
+        forkedFrom: t.Optional(
+          t.Object({
+            sessionId: t.String({ pattern: SESSION_ID_PATTERN }),
+            messageUuid: t.String(),
+          })
+        ),
+        queue: t.Optional(t.Boolean()),
       }),
     }
   )
   .post(
     "/api/abort",
-    async ({ body }) => {
+    async ({ body, set, cwd }) => {
       const { requestId } = body;
 
-      const entry = runningProcesses.get(requestId);
-      if (entry) {
-        entry.aborted = true;
-        entry.proc.kill();
-        runningProcesses.delete(requestId);
+      if (getRun(requestId)?.cwd === cwd && abortRun(requestId)) {
         return { success: true, message: "Request aborted" };
       }
 
+      set.status = 404;
       return { success: false, error: "No running request found" };
     },
     {
@@ -196,162 +642,737 @@ const app = new Elysia()
       }),
     }
   )
-  .get("/api/sessions", async () => {
-    try {
-      const encodedPath = CLAUDE_CWD.replace(/\//g, "-");
-      const sessionsDir = `${process.env.HOME}/.claude/projects/${encodedPath}`;
-
-      const glob = new Bun.Glob("*.jsonl");
-      const sessions: { id: string; modified: number; preview: string }[] = [];
+  // Runs that are still in progress (or finished moments ago), for re-attaching after a reload
+  .get("/api/runs", ({ cwd }) => {
+    return {
+      success: true,
+      runs: listRuns()
+        .filter((run) => run.cwd === cwd)
+        .map(toRunSummary),
+      running: countRunningRuns(),
+      maxConcurrent: MAX_CONCURRENT_RUNS,
+    };
+  })
+  // Re-attach to a run: replays its buffered events, then streams live
+  .get("/api/runs/:requestId/stream", ({ params, set, cwd }) => {
+    const run = getRun(params.requestId);
+    if (!run || run.cwd !== cwd) {
+      set.status = 404;
+      return { success: false, error: "Run not found" };
+    }
+    return runEventStream(run);
+  })
+  // Spending for this project: per day and per session
+  .get(
+    "/api/usage",
+    async ({ query, cwd }) => {
+      const entries = await readLedger({ cwd });
+      return { success: true, ...summarizeUsage(entries, query.days ? Number(query.days) : undefined) };
+    },
+    {
+      query: t.Object({
+        days: t.Optional(t.String()),
+      }),
+    }
+  )
+  // Budget limits and how much of each has been spent
+  .get(
+    "/api/budgets",
+    async ({ query, cwd }) => {
+      const config = await getBudgetConfig();
+      const sessionId = query.sessionId;
+      return {
+        success: true,
+        limits: {
+          daily: config.daily,
+          project: config.projects[cwd] || {},
+          sessionDefault: config.sessionDefault,
+          session: sessionId ? config.sessions[sessionId] || null : null,
+        },
+        status: await getBudgetStatus(cwd, sessionId),
+      };
+    },
+    {
+      query: t.Object({
+        sessionId: t.Optional(t.String()),
+      }),
+    }
+  )
+  .put(
+    "/api/budgets",
+    async ({ body, cwd }) => {
+      await updateBudgetConfig({
+        daily: body.daily,
+        sessionDefault: body.sessionDefault,
+        project: body.project ? { cwd, limits: body.project } : undefined,
+        session: body.session,
+      });
+      // Queued messages may have been waiting for more budget
+      drainAllQueues();
+      return { success: true, status: await getBudgetStatus(cwd, body.session?.sessionId) };
+    },
+    {
+      body: t.Object({
+        daily: t.Optional(budgetLimitsSchema),
+        project: t.Optional(budgetLimitsSchema),
+        sessionDefault: t.Optional(budgetLimitsSchema),
+        session: t.Optional(
+          t.Object({
+            sessionId: t.String(),
+            limits: budgetLimitsSchema,
+          })
+        ),
+      }),
+    }
+  )
+  // System prompt presets for this project
+  .get("/api/presets", async ({ cwd }) => {
+    return { success: true, presets: await listPresets(cwd) };
+  })
+  .post(
+    "/api/presets",
+    async ({ body, cwd }) => {
+      return { success: true, preset: await createPreset(cwd, body) };
+    },
+    { body: presetSchema }
+  )
+  .put(
+    "/api/presets/:id",
+    async ({ params, body, set, cwd }) => {
+      const preset = await updatePreset(cwd, params.id, body);
+      if (!preset) {
+        set.status = 404;
+        return { success: false, error: "Preset not found" };
+      }
+      return { success: true, preset };
+    },
+    { body: presetSchema }
+  )
+  .delete("/api/presets/:id", async ({ params, set, cwd }) => {
+    if (!(await deletePreset(cwd, params.id))) {
+      set.status = 404;
+      return { success: false, error: "Preset not found" };
+    }
+    return { success: true };
+  })
+  // Built-in and custom tool profiles for this project
+  .get("/api/tool-profiles", async ({ cwd }) => {
+    return { success: true, profiles: await listToolProfiles(cwd) };
+  })
+  .post(
+    "/api/tool-profiles",
+    async ({ body, cwd }) => {
+      return { success: true, profile: await createToolProfile(cwd, body) };
+    },
+    { body: toolProfileSchema }
+  )
+  .put(
+    "/api/tool-profiles/:id",
+    async ({ params, body, set, cwd }) => {
+      if (BUILT_IN_PROFILES.some((p) => p.id === params.id)) {
+        set.status = 400;
+        return { success: false, error: "Built-in profiles can't be changed" };
+      }
+      const profile = await updateToolProfile(cwd, params.id, body);
+      if (!profile) {
+        set.status = 404;
+        return { success: false, error: "Tool profile not found" };
+      }
+      return { success: true, profile };
+    },
+    { body: toolProfileSchema }
+  )
+  .delete("/api/tool-profiles/:id", async ({ params, set, cwd }) => {
+    if (BUILT_IN_PROFILES.some((p) => p.id === params.id)) {
+      set.status = 400;
+      return { success: false, error: "Built-in profiles can't be deleted" };
+    }
+    if (!(await deleteToolProfile(cwd, params.id))) {
+      set.status = 404;
+      return { success: false, error: "Tool profile not found" };
+    }
+    return { success: true };
+  })
+  // Image attachments, uploaded before the message that uses them is sent
+  .post(
+    "/api/uploads",
+    async ({ body, set }) => {
+      const upload = await saveUpload(body.file, body.sessionId);
+      if ("error" in upload) {
+        set.status = 400;
+        return { success: false, error: upload.error };
+      }
+      return { success: true, upload };
+    },
+    {
+      body: t.Object({
+        file: t.File({ maxSize: MAX_IMAGE_BYTES }),
+        sessionId: t.Optional(t.String()),
+      }),
+    }
+  )
+  .get("/api/uploads/:folder/:name", async ({ params, set }) => {
+    const upload = resolveUpload(`${params.folder}/${params.name}`);
+    const file = upload && Bun.file(upload.filePath);
+    if (!upload || !file || !(await file.exists())) {
+      set.status = 404;
+      return { success: false, error: "Upload not found" };
+    }
+    return new Response(file, { headers: { "Content-Type": upload.mediaType } });
+  })
+  // Directories the UI can switch between
+  .get("/api/projects", async () => {
+    return { success: true, projects: await listProjects() };
+  })
+  .post(
+    "/api/projects",
+    async ({ body, set }) => {
+      const project = await createProject(body);
+      if ("error" in project) {
+        set.status = 400;
+        return { success: false, error: project.error };
+      }
+      return { success: true, project };
+    },
+    {
+      body: t.Object({
+        name: t.Optional(t.String()),
+        path: t.String({ minLength: 1 }),
+      }),
+    }
+  )
+  .put(
+    "/api/projects/:id",
+    async ({ params, body, set }) => {
+      if (params.id === DEFAULT_PROJECT_ID) {
+        set.status = 400;
+        return { success: false, error: "The default project comes from CLAUDE_CWD and can't be renamed" };
+      }
+      const project = await renameProject(params.id, body.name);
+      if (!project) {
+        set.status = 404;
+        return { success: false, error: "Project not found" };
+      }
+      return { success: true, project };
+    },
+    {
+      body: t.Object({
+        name: t.String({ minLength: 1 }),
+      }),
+    }
+  )
+  .delete("/api/projects/:id", async ({ params, set }) => {
+    if (params.id === DEFAULT_PROJECT_ID) {
+      set.status = 400;
+      return { success: false, error: "The default project can't be removed" };
+    }
+    if (!(await deleteProject(params.id))) {
+      set.status = 404;
+      return { success: false, error: "Project not found" };
+    }
+    return { success: true };
+  })
+  // Slash commands for the palette: built-ins plus the project's and the user's own
+  .get("/api/commands", async ({ cwd }) => {
+    return { success: true, commands: await listCommands(cwd) };
+  })
+  // Fuzzy search over the project's files, for @-mentions
+  .get(
+    "/api/files",
+    async ({ query, cwd }) => {
+      const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 100);
+      return { success: true, files: await searchFiles(cwd, query.q || "", limit) };
+    },
+    {
+      query: t.Object({
+        q: t.Optional(t.String()),
+        limit: t.Optional(t.String()),
+      }),
+    }
+  )
+  // Roots extra directories must live under, with their subdirectories as suggestions
+  .get("/api/directories", async ({ cwd }) => {
+    return {
+      success: true,
+      allowedRoots: getAllowedRoots(),
+      suggestions: await listRootDirectories(cwd),
+    };
+  })
+  .put(
+    "/api/sessions/:id/directories",
+    async ({ params, body, set, cwd }) => {
+      if (!(await isProjectSession(params.id, cwd))) return sessionNotFound(set);
+      const dirs = await validateDirectories(cwd, body.directories);
+      if ("error" in dirs) {
+        set.status = 400;
+        return { success: false, error: dirs.error };
+      }
+      await updateSessionMeta(params.id, { additionalDirs: dirs.paths });
+      return { success: true, directories: dirs.paths };
+    },
+    {
+      params: sessionParams,
+      body: t.Object({
+        directories: t.Array(t.String()),
+      }),
+    }
+  )
+  // Worktrees made for this project's sessions, whatever became of them
+  .get("/api/worktrees", async ({ cwd }) => {
+    return { success: true, worktrees: await listWorktrees(cwd) };
+  })
+  // Start a new session from the history up to the end of the given message's turn
+  .post(
+    "/api/sessions/:id/fork",
+    async ({ params, body, set, cwd }) => {
+      const [meta, worktree] = await Promise.all([getSessionMeta(params.id), getSessionWorktree(params.id)]);
+      if (worktree && worktree.cwd !== cwd) return sessionNotFound(set);
+      // Forks of worktree sessions go back to the project directory
+      const fork = await forkSession(sessionFilePath(worktree?.path ?? cwd, params.id), cwd, body.messageUuid);
+      if ("error" in fork) {
+        set.status = 404;
+        return { success: false, error: fork.error };
+      }
 
-      for await (const file of glob.scan({ cwd: sessionsDir })) {
-        const filePath = `${sessionsDir}/${file}`;
-        const stat = await Bun.file(filePath).stat();
+      // The fork runs like its source but gets its own title, tags and creation time
+      const { model, permissionMode, presetId, additionalDirs } = meta;
+      await updateSessionMeta(fork.sessionId, {
+        model,
+        permissionMode,
+        presetId,
+        additionalDirs,
+        forkedFrom: { sessionId: params.id, messageUuid: body.messageUuid },
+      });
+      return { success: true, sessionId: fork.sessionId };
+    },
+    {
+      params: sessionParams,
+      body: t.Object({
+        messageUuid: t.String(),
+      }),
+    }
+  )
+  // Move a session out of the list; restore brings it back
+  .post(
+    "/api/sessions/:id/archive",
+    async ({ params, set, cwd }) => {
+      const result = await moveSession(params.id, cwd, "archived");
+      if ("error" in result) {
+        set.status = result.status;
+        return { success: false, error: result.error };
+      }
+      return { success: true, removed: result };
+    },
+    { params: sessionParams }
+  )
+  // Deleted sessions go to the trash, where they can be restored for 30 days
+  .delete(
+    "/api/sessions/:id",
+    async ({ params, set, cwd }) => {
+      const result = await moveSession(params.id, cwd, "trash");
+      purgeTrash().catch((err) => console.error("Failed to empty the trash:", err));
+      if ("error" in result) {
+        set.status = result.status;
+        return { success: false, error: result.error };
+      }
+      return { success: true, removed: result };
+    },
+    { params: sessionParams }
+  )
+  .post(
+    "/api/sessions/:id/restore",
+    async ({ params, set, cwd }) => {
+      if (!(await isProjectSession(params.id, cwd))) return sessionNotFound(set);
+      const restored = await restoreSession(params.id);
+      if ("error" in restored) {
+        set.status = 409;
+        return { success: false, error: restored.error };
+      }
+      return { success: true };
+    },
+    { params: sessionParams }
+  )
+  .get(
+    "/api/sessions/:id/meta",
+    async ({ params, set, cwd }) => {
+      if (!(await isProjectSession(params.id, cwd))) return sessionNotFound(set);
+      return { success: true, meta: await getSessionMeta(params.id) };
+    },
+    { params: sessionParams }
+  )
+  // Rename, retag or pin a session; an empty title goes back to the generated one
+  .patch(
+    "/api/sessions/:id/meta",
+    async ({ params, body, set, cwd }) => {
+      if (!(await isProjectSession(params.id, cwd))) return sessionNotFound(set);
+      const meta = await updateSessionMeta(params.id, {
+        ...(body.title !== undefined && { title: body.title.trim() || undefined }),
+        ...(body.tags && { tags: normalizeTags(body.tags) }),
+        ...(body.pinned !== undefined && { pinned: body.pinned || undefined }),
+      });
+      return { success: true, meta };
+    },
+    {
+      params: sessionParams,
+      body: t.Object({
+        title: t.Optional(t.String({ maxLength: 200 })),
+        tags: t.Optional(t.Array(t.String({ maxLength: 50 }))),
+        pinned: t.Optional(t.Boolean()),
+      }),
+    }
+  )
+  .get(
+    "/api/sessions/:id/worktree",
+    async ({ params, set, cwd }) => {
+      if (!(await isProjectSession(params.id, cwd))) return sessionNotFound(set);
+      return { success: true, worktree: (await getSessionWorktree(params.id)) || null };
+    },
+    { params: sessionParams }
+  )
+  // Finish with a session's worktree: merge it into the base branch, keep the branch, or delete it
+  .post(
+    "/api/sessions/:id/worktree/:action",
+    async ({ params, set, cwd }) => {
+      if (!(await isProjectSession(params.id, cwd))) return sessionNotFound(set);
+      const worktree = await getSessionWorktree(params.id);
+      if (!worktree) {
+        set.status = 404;
+        return { success: false, error: "This session has no worktree" };
+      }
+      if (worktree.status === "merged" || worktree.status === "deleted") {
+        set.status = 409;
+        return { success: false, error: `The worktree was already ${worktree.status}` };
+      }
+      if (getActiveRun(params.id) || getQueue(params.id).length > 0) {
+        set.status = 409;
+        return { success: false, code: "session_busy", error: "Wait for the session's runs and queue to finish" };
+      }
 
-        // Get first user message as preview
-        let preview = "";
-        try {
-          const content = await Bun.file(filePath).text();
-          const lines = content.trim().split("\n");
-          for (const line of lines) {
-            try {
-              const parsed = JSON.parse(line);
-              if (parsed.type === "user" && parsed.message?.content) {
-                const msgContent = parsed.message.content;
-                if (typeof msgContent === "string" && !msgContent.startsWith("<")) {
-                  preview = msgContent.slice(0, 100);
-                  break;
-                } else if (Array.isArray(msgContent)) {
-                  for (const block of msgContent) {
-                    if (block.type === "text" && block.text && !block.text.startsWith("<")) {
-                      preview = block.text.slice(0, 100);
-                      break;
-                    }
-                  }
-                  if (preview) break;
-                }
-              }
-            } catch {
-              // Skip invalid lines
-            }
-          }
-        } catch {
-          // Couldn't read file
-        }
+      const result =
+        params.action === "merge"
+          ? await mergeWorktree(worktree)
+          : params.action === "keep"
+            ? await keepWorktree(worktree)
+            : await deleteWorktree(worktree);
+      if ("error" in result) {
+        set.status = 409;
+        return { success: false, error: result.error };
+      }
+      return { success: true, worktree: result };
+    },
+    {
+      params: t.Object({
+        id: t.String({ pattern: SESSION_ID_PATTERN }),
+        action: t.Union([t.Literal("merge"), t.Literal("keep"), t.Literal("delete")]),
+      }),
+    }
+  )
+  .get(
+    "/api/sessions/:id/queue",
+    async ({ params, set, cwd }) => {
+      if (!(await isProjectSession(params.id, cwd))) return sessionNotFound(set);
+      return { success: true, queue: getQueue(params.id) };
+    },
+    { params: sessionParams }
+  )
+  // Queue a follow-up; it starts right away if the session is idle
+  .post(
+    "/api/sessions/:id/queue",
+    async ({ params, body, set, cwd }) => {
+      const { message, permissionMode, model, presetId, toolProfileId, maxTurns, timeLimitMs, attachments, interrupt } =
+        body;
+
+      if (!(await isProjectSession(params.id, cwd))) return sessionNotFound(set);
+
+      const modelError =
+        validateModel(model) || (await validatePreset(cwd, presetId)) || (await validateToolProfile(cwd, toolProfileId));
+      if (modelError) {
+        set.status = 400;
+        return { success: false, error: modelError };
+      }
 
-        sessions.push({
-          id: file.replace(".jsonl", ""),
-          modified: stat?.mtime?.getTime() || 0,
-          preview: preview || "New conversation",
-        });
+      const worktreeError = closedWorktreeError(await getSessionWorktree(params.id));
+      if (worktreeError) {
+        set.status = 409;
+        return { success: false, error: worktreeError };
       }
 
-      sessions.sort((a, b) => b.modified - a.modified);
+      const item = enqueueMessage(
+        {
+          sessionId: params.id,
+          cwd,
+          message,
+          permissionMode,
+          model,
+          presetId,
+          toolProfileId,
+          maxTurns,
+          timeLimitMs,
+          attachments,
+        },
+        { front: interrupt }
+      );
+
+      // Interrupting stops the current run; the queue picks this message up when it exits
+      const active = getActiveRun(params.id);
+      if (active && interrupt) {
+        abortRun(active.requestId);
+      } else {
+        drainQueue(params.id);
+      }
 
-      return { success: true, sessions, cwd: CLAUDE_CWD };
-    } catch {
-      return { success: true, sessions: [], cwd: CLAUDE_CWD };
+      return { success: true, item };
+    },
+    {
+      params: sessionParams,
+      body: t.Object({
+        message: t.String(),
+        permissionMode: t.Optional(t.String()),
+        model: t.Optional(t.String()),
+        presetId: t.Optional(t.String()),
+        toolProfileId: t.Optional(t.String()),
+        ...runLimitsSchema,
+        attachments: t.Optional(t.Array(t.String())),
+        interrupt: t.Optional(t.Boolean()),
+      }),
     }
+  )
+  .put(
+    "/api/sessions/:id/queue",
+    async ({ params, body, set, cwd }) => {
+      if (!(await isProjectSession(params.id, cwd))) return sessionNotFound(set);
+      const queue = reorderQueue(params.id, body.ids);
+      if ("error" in queue) {
+        set.status = 400;
+        return { success: false, error: queue.error };
+      }
+      return { success: true, queue };
+    },
+    {
+      params: sessionParams,
+      body: t.Object({
+        ids: t.Array(t.String()),
+      }),
+    }
+  )
+  .delete("/api/queue/:itemId", ({ params, set, cwd }) => {
+    if (findQueuedMessage(params.itemId)?.cwd === cwd && removeQueuedMessage(params.itemId)) {
+      return { success: true };
+    }
+    set.status = 404;
+    return { success: false, error: "Queued message not found" };
   })
-  .get("/api/sessions/:id", async ({ params }) => {
-    try {
-      const encodedPath = CLAUDE_CWD.replace(/\//g, "-");
-      const sessionFile = `${process.env.HOME}/.claude/projects/${encodedPath}/${params.id}.jsonl`;
-
-      const content = await Bun.file(sessionFile).text();
-      const lines = content.trim().split("\n");
-
-      const messages: Array<{
-        role: "user" | "assistant" | "system";
-        content: string;
-        thinking?: string[];
-        toolUse?: Array<{ name: string; input?: Record<string, unknown> }>;
-      }> = [];
-
-      for (const line of lines) {
-        try {
-          const parsed = JSON.parse(line);
-
-          if (parsed.type === "user" && parsed.message) {
-            let content = "";
+  // Stop the current run and send this queued message next
+  .post("/api/queue/:itemId/send-now", ({ params, set, cwd }) => {
+    const item = findQueuedMessage(params.itemId);
+    if (!item || item.cwd !== cwd || !moveToFront(item.id)) {
+      set.status = 404;
+      return { success: false, error: "Queued message not found" };
+    }
 
-            // message.content can be a string or an array
-            const msgContent = parsed.message.content;
+    const active = getActiveRun(item.sessionId);
+    if (active) {
+      abortRun(active.requestId);
+    } else {
+      drainQueue(item.sessionId);
+    }
+    return { success: true };
+  })
+  // Sessions of this project, or of every project with ?all=true; archived or deleted ones with ?view=.
+  // Pinned sessions come first, then by ?sort=; ?tag= (comma-separated) and ?pinned=true narrow the list.
+  .get(
+    "/api/sessions",
+    async ({ query, project, cwd }) => {
+      const projects = query.all === "true" ? await listProjects() : [project];
+      const meta = await listSessionMeta();
+      const all = (await Promise.all(projects.map((p) => listProjectSessions(p, query.view))))
+        .flat()
+        .map((session) => {
+          const { title, generatedTitle, tags, pinned, createdAt, forkedFrom } = meta[session.id] || {};
+          // Forks point at the session they were made from, so the UI can show them as a tree
+          return {
+            ...session,
+            title: title || generatedTitle,
+            tags: tags || [],
+            pinned: !!pinned,
+            createdAt,
+            parentId: forkedFrom?.sessionId,
+          };
+        });
 
-            if (typeof msgContent === "string") {
-              // Check for system messages
-              if (msgContent.startsWith("<task-notification>")) {
-                // Extract summary from task notification
-                const summaryMatch = msgContent.match(/<summary>([^<]+)<\/summary>/);
-                if (summaryMatch) {
-                  messages.push({ role: "system", content: summaryMatch[1] });
+      const wantedTags = query.tag ? normalizeTags(query.tag.split(",")) : [];
+      const compare = SESSION_SORTS[query.sort || "modified"];
+      const sessions = all
+        .filter((session) => query.pinned !== "true" || session.pinned)
+        .filter((session) => wantedTags.every((tag) => session.tags.includes(tag)))
+        .sort((a, b) => Number(b.pinned) - Number(a.pinned) || compare(a, b));
+      // Every tag in use, for filtering on; not narrowed by the filters above
+      const tags = normalizeTags(all.flatMap((session) => session.tags)).sort();
+      return { success: true, sessions, tags, cwd };
+    },
+    {
+      query: t.Object({
+        all: t.Optional(t.String()),
+        view: t.Optional(t.Union([t.Literal("archived"), t.Literal("trash")])),
+        tag: t.Optional(t.String()),
+        pinned: t.Optional(t.String()),
+        sort: t.Optional(t.Union([t.Literal("modified"), t.Literal("created"), t.Literal("title")])),
+      }),
+    }
+  )
+  .get(
+    "/api/sessions/:id",
+    async ({ params, set, cwd }) => {
+      try {
+        const worktree = await getSessionWorktree(params.id);
+        if (worktree && worktree.cwd !== cwd) return sessionNotFound(set);
+        const content = await Bun.file(sessionFilePath(worktree?.path ?? cwd, params.id)).text();
+        const lines = content.trim().split("\n");
+
+        const messages: Array<{
+          role: "user" | "assistant" | "system";
+          // Transcript line the message came from, used to fork the session there
+          uuid?: string;
+          content: string;
+          thinking?: string[];
+          toolUse?: Array<{ name: string; input?: Record<string, unknown> }>;
+          model?: string;
+          usage?: RunUsage;
+          toolProfile?: string;
+          images?: string[];
+        }> = [];
+        // Last parsed message for each API message ID, to attach turn costs
+        const indexByMessageId = new Map<string, number>();
+
+        for (const line of lines) {
+          try {
+            const parsed = JSON.parse(line);
+
+            if (parsed.type === "user" && parsed.message) {
+              let content = "";
+              const images: string[] = [];
+
+              // message.content can be a string or an array
+              const msgContent = parsed.message.content;
+
+              if (typeof msgContent === "string") {
+                // Check for system messages
+                if (msgContent.startsWith("<task-notification>")) {
+                  // Extract summary from task notification
+                  const summaryMatch = msgContent.match(/<summary>([^<]+)<\/summary>/);
+                  if (summaryMatch) {
+                    messages.push({ role: "system", content: summaryMatch[1] });
+                  }
+                } else if (!msgContent.startsWith("<system-reminder>")) {
+                  // Regular user message (skip system-reminder)
+                  content = msgContent;
                 }
-              } else if (!msgContent.startsWith("<system-reminder>")) {
-                // Regular user message (skip system-reminder)
-                content = msgContent;
-              }
-            } else if (Array.isArray(msgContent)) {
-              // Array content - check for text type (skip tool_result)
-              for (const block of msgContent) {
-                if (block.type === "text" && block.text) {
-                  // Skip system messages like "[Request interrupted by user]"
-                  if (!block.text.startsWith("[Request interrupted")) {
-                    content += block.text;
+              } else if (Array.isArray(msgContent)) {
+                // Array content - check for text type (skip tool_result)
+                for (const block of msgContent) {
+                  if (block.type === "text" && block.text) {
+                    // Skip system messages like "[Request interrupted by user]"
+                    if (!block.text.startsWith("[Request interrupted")) {
+                      content += block.text;
+                    }
+                  }
+                  // Attached images, inlined so the bubble can show them
+                  if (block.type === "image" && block.source?.type === "base64") {
+                    images.push(`data:${block.source.media_type};base64,${block.source.data}`);
                   }
+                  // Skip tool_result blocks - they're not user messages
                 }
-                // Skip tool_result blocks - they're not user messages
               }
-            }
 
-            if (content && content.trim()) {
-              messages.push({ role: "user", content: content.trim() });
+              if ((content && content.trim()) || images.length > 0) {
+                messages.push({
+                  role: "user",
+                  uuid: parsed.uuid,
+                  content: content.trim(),
+                  ...(images.length > 0 && { images }),
+                });
+              }
             }
-          }
 
-          if (parsed.type === "assistant" && parsed.message?.content) {
-            const thinking: string[] = [];
-            const toolUse: Array<{ name: string; input?: Record<string, unknown> }> = [];
-            let text = "";
+            if (parsed.type === "assistant" && parsed.message?.content) {
+              const thinking: string[] = [];
+              const toolUse: Array<{ name: string; input?: Record<string, unknown> }> = [];
+              let text = "";
 
-            for (const block of parsed.message.content) {
-              if (block.type === "thinking" && block.thinking) {
-                thinking.push(block.thinking);
-              }
-              if (block.type === "text" && block.text) {
-                text += block.text;
+              for (const block of parsed.message.content) {
+                if (block.type === "thinking" && block.thinking) {
+                  thinking.push(block.thinking);
+                }
+                if (block.type === "text" && block.text) {
+                  text += block.text;
+                }
+                if (block.type === "tool_use" && block.name) {
+                  toolUse.push({
+                    name: block.name,
+                    input: block.input,
+                  });
+                }
               }
-              if (block.type === "tool_use" && block.name) {
-                toolUse.push({
-                  name: block.name,
-                  input: block.input,
+
+              // Only add message if there's text or tool usage
+              if (text || toolUse.length > 0) {
+                messages.push({
+                  role: "assistant",
+                  uuid: parsed.uuid,
+                  content: text,
+                  thinking: thinking.length > 0 ? thinking : undefined,
+                  toolUse: toolUse.length > 0 ? toolUse : undefined,
+                  // "<synthetic>" marks messages the CLI made up itself
+                  model: parsed.message.model !== "<synthetic>" ? parsed.message.model : undefined,
                 });
+                if (parsed.message.id) {
+                  indexByMessageId.set(parsed.message.id, messages.length - 1);
+                }
               }
             }
+          } catch {
+            // Skip invalid lines
+          }
+        }
 
-            // Only add message if there's text or tool usage
-            if (text || toolUse.length > 0) {
-              messages.push({
-                role: "assistant",
-                content: text,
-                thinking: thinking.length > 0 ? thinking : undefined,
-                toolUse: toolUse.length > 0 ? toolUse : undefined,
-              });
-            }
+        const meta = await getSessionMeta(params.id);
+
+        // Show each turn's cost on the message that ended it
+        const ledger = await readLedger({ sessionId: params.id });
+        let totalCostUsd = 0;
+        for (const entry of ledger) {
+          totalCostUsd += entry.costUsd;
+          const index = entry.messageId ? indexByMessageId.get(entry.messageId) : undefined;
+          const message = index !== undefined ? messages[index] : undefined;
+          if (message) {
+            const { costUsd, durationMs, numTurns, inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens } = entry;
+            message.usage = { costUsd, durationMs, numTurns, inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens };
+            message.toolProfile = entry.toolProfile;
           }
-        } catch {
-          // Skip invalid lines
         }
-      }
 
-      return { success: true, messages };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Failed to load session",
-        messages: [],
-      };
-    }
-  })
+        return {
+          success: true,
+          messages,
+          title: meta.title || meta.generatedTitle,
+          tags: meta.tags || [],
+          model: meta.model,
+          permissionMode: meta.permissionMode,
+          presetId: meta.presetId,
+          additionalDirs: meta.additionalDirs || [],
+          worktree: worktree || null,
+          totalCostUsd,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to load session",
+          messages: [],
+        };
+      }
+    },
+    { params: sessionParams }
+  )
   // Permission request from hook script (long-polling)
   .post(
     "/api/permission-request",
@@ -375,19 +1396,27 @@ const app = new Elysia()
 
       // Create a promise that will be resolved when user responds
       const decision = await new Promise<PermissionDecision>((resolve) => {
-        pendingPermissions.set(id, {
+        const request: PermissionRequest = {
           id,
           sessionId: session_id || "",
           toolName: tool_name,
           toolInput: tool_input,
           timestamp: Date.now(),
           resolve,
-        });
+        };
+        pendingPermissions.set(id, request);
+        broadcast({ type: "permission_request", permission: toPermissionSummary(request) });
 
         // Timeout after 5 minutes - deny by default
         setTimeout(() => {
           if (pendingPermissions.has(id)) {
             pendingPermissions.delete(id);
+            broadcast({
+              type: "permission_resolved",
+              id,
+              allow: false,
+              reason: "Permission request timed out",
+            });
             resolve({
               hookSpecificOutput: {
                 hookEventName: "PreToolUse",
@@ -414,15 +1443,9 @@ const app = new Elysia()
       }),
     }
   )
-  // Get pending permission requests (for frontend polling)
+  // Get pending permission requests
   .get("/api/permission-pending", () => {
-    const pending = Array.from(pendingPermissions.values()).map((p) => ({
-      id: p.id,
-      sessionId: p.sessionId,
-      toolName: p.toolName,
-      toolInput: p.toolInput,
-      timestamp: p.timestamp,
-    }));
+    const pending = Array.from(pendingPermissions.values()).map(toPermissionSummary);
     return { success: true, pending };
   })
   // Respond to a permission request
@@ -439,6 +1462,12 @@ const app = new Elysia()
       console.log(`[Permission] Response for ${request.toolName}: ${allow ? "allow" : "deny"}`);
 
       pendingPermissions.delete(id);
+      broadcast({
+        type: "permission_resolved",
+        id,
+        allow,
+        reason: allow ? "User approved" : "User denied permission",
+      });
 
       // PreToolUse hook format with hookSpecificOutput wrapper
       request.resolve({
@@ -459,52 +1488,24 @@ const app = new Elysia()
     }
   )
   // Check if permission hook is configured
-  .get("/api/hook-status", async () => {
-    const hookScriptPath = path.join(import.meta.dir, "../../scripts/permission-hook.sh");
-    const globalSettingsPath = `${process.env.HOME}/.claude/settings.json`;
-    const projectSettingsPath = path.join(CLAUDE_CWD, ".claude/settings.json");
-
-    const checkSettings = async (filePath: string): Promise<boolean> => {
-      try {
-        const content = await Bun.file(filePath).text();
-        const settings = JSON.parse(content);
-        // Check for PreToolUse hook (primary) or PermissionRequest (legacy)
-        const hooks = settings?.hooks?.PreToolUse || settings?.hooks?.PermissionRequest;
-        if (!Array.isArray(hooks)) return false;
-        // Check if any hook points to our script
-        return hooks.some((h: { hooks?: Array<{ command?: string }> }) =>
-          h.hooks?.some((hook) => hook.command?.includes("permission-hook.sh"))
-        );
-      } catch {
-        return false;
-      }
-    };
-
-    const globalConfigured = await checkSettings(globalSettingsPath);
-    const projectConfigured = await checkSettings(projectSettingsPath);
-
-    return {
-      success: true,
-      configured: globalConfigured || projectConfigured,
-      globalConfigured,
-      projectConfigured,
-      hookScriptPath,
-      globalSettingsPath,
-      projectSettingsPath,
-      cwd: CLAUDE_CWD,
-    };
+  .get("/api/hook-status", async ({ cwd }) => {
+    return { success: true, ...(await getHookStatus(cwd)) };
+  })
+  // Everything the server needs to run claude: CLI, login, directory, git and hook
+  .get("/api/health", async ({ cwd }) => {
+    return { success: true, ...(await checkHealth(cwd)) };
   })
   // Configure the permission hook
   .post(
     "/api/hook-configure",
-    async ({ body }) => {
+    async ({ body, cwd }) => {
       const { location } = body; // "global" or "project"
       const hookScriptPath = path.join(import.meta.dir, "../../scripts/permission-hook.sh");
 
       const settingsPath =
         location === "global"
           ? `${process.env.HOME}/.claude/settings.json`
-          : path.join(CLAUDE_CWD, ".claude/settings.json");
+          : path.join(cwd, ".claude/settings.json");
 
       const settingsDir = path.dirname(settingsPath);
 
@@ -575,6 +1576,19 @@ const app = new Elysia()
       }),
     }
   )
+  // Push channel for permissions, run status and session messages
+  .ws("/api/ws", {
+    open(ws) {
+      addSocket(ws);
+      sendEvent(ws, {
+        type: "permissions_snapshot",
+        pending: Array.from(pendingPermissions.values()).map(toPermissionSummary),
+      });
+    },
+    close(ws) {
+      removeSocket(ws);
+    },
+  })
   .get("/assets/*", ({ params }) => {
     const filePath = path.join(DIST_DIR, "assets", params["*"]);
     return Bun.file(filePath);
@@ -598,4 +1612,4 @@ const localIP = getLocalIP();
 console.log(`Chat server running at:`);
 console.log(`  Local:   http://localhost:${app.server?.port}`);
 console.log(`  Network: http://${localIP}:${app.server?.port}`);
-console.log(`Claude CWD: ${CLAUDE_CWD}`);
+console.log(`Claude CWD: ${defaultProject.path}`);
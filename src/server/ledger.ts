@@ -0,0 +1,173 @@
+import path from "path";
+import { appendFile, mkdir } from "fs/promises";
+import { DATA_DIR } from "./store";
+import type { Run, RunUsage } from "./runs";
+
+const LEDGER_PATH = path.join(DATA_DIR, "ledger.jsonl");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One line per finished run in ledger.jsonl
+export interface LedgerEntry extends RunUsage {
+  requestId: string;
+  sessionId?: string;
+  cwd: string;
+  timestamp: number;
+  status: Run["status"];
+  model?: string;
+  // Last assistant message of the run, to attach the cost to it in the transcript
+  messageId?: string;
+  toolProfile?: string;
+  // Set for claude calls made on the side of a run, e.g. to title its session
+  kind?: "title";
+}
+
+export interface DailyUsage {
+  date: string;
+  costUsd: number;
+  runs: number;
+}
+
+export interface SessionUsage {
+  sessionId: string;
+  costUsd: number;
+  runs: number;
+  lastRunAt: number;
+}
+
+export interface UsageSummary {
+  todayUsd: number;
+  weekUsd: number;
+  totalUsd: number;
+  days: DailyUsage[];
+  sessions: SessionUsage[];
+}
+
+export async function recordRun(run: Run): Promise<LedgerEntry | null> {
+  // Runs that never got as far as a result event have nothing to bill
+  if (!run.usage) return null;
+
+  const entry: LedgerEntry = {
+    requestId: run.requestId,
+    sessionId: run.sessionId,
+    cwd: run.cwd,
+    timestamp: run.finishedAt || Date.now(),
+    status: run.status,
+    model: run.model,
+    messageId: run.lastMessageId,
+    toolProfile: run.toolProfile,
+    ...run.usage,
+  };
+
+  await appendEntry(entry);
+  return entry;
+}
+
+// Bill a side call to the session it was made for
+export async function recordSideCall(call: {
+  kind: NonNullable<LedgerEntry["kind"]>;
+  sessionId: string;
+  cwd: string;
+  model: string;
+  usage: RunUsage;
+}): Promise<LedgerEntry> {
+  const entry: LedgerEntry = {
+    requestId: crypto.randomUUID(),
+    sessionId: call.sessionId,
+    cwd: call.cwd,
+    timestamp: Date.now(),
+    status: "completed",
+    model: call.model,
+    kind: call.kind,
+    ...call.usage,
+  };
+
+  await appendEntry(entry);
+  return entry;
+}
+
+async function appendEntry(entry: LedgerEntry) {
+  await mkdir(DATA_DIR, { recursive: true });
+  await appendFile(LEDGER_PATH, JSON.stringify(entry) + "\n");
+}
+
+export async function readLedger(filter: { cwd?: string; sessionId?: string } = {}): Promise<LedgerEntry[]> {
+  let content = "";
+  try {
+    content = await Bun.file(LEDGER_PATH).text();
+  } catch {
+    return [];
+  }
+
+  const entries: LedgerEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry: LedgerEntry = JSON.parse(line);
+      if (filter.cwd && entry.cwd !== filter.cwd) continue;
+      if (filter.sessionId && entry.sessionId !== filter.sessionId) continue;
+      entries.push(entry);
+    } catch {
+      // Skip invalid lines
+    }
+  }
+  return entries;
+}
+
+// Local calendar day, e.g. "2026-10-19"
+export function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function summarizeUsage(entries: LedgerEntry[], days = 14): UsageSummary {
+  const now = Date.now();
+  const todayKey = toDateKey(now);
+
+  // Oldest first, including days without any runs
+  const byDay = new Map<string, DailyUsage>();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = toDateKey(now - i * DAY_MS);
+    byDay.set(date, { date, costUsd: 0, runs: 0 });
+  }
+
+  const bySession = new Map<string, SessionUsage>();
+  let todayUsd = 0;
+  let weekUsd = 0;
+  let totalUsd = 0;
+
+  for (const entry of entries) {
+    totalUsd += entry.costUsd;
+    const dateKey = toDateKey(entry.timestamp);
+    if (dateKey === todayKey) todayUsd += entry.costUsd;
+    if (now - entry.timestamp < 7 * DAY_MS) weekUsd += entry.costUsd;
+
+    const day = byDay.get(dateKey);
+    if (day) {
+      day.costUsd += entry.costUsd;
+      if (!entry.kind) day.runs++;
+    }
+
+    if (entry.sessionId) {
+      const session = bySession.get(entry.sessionId) || {
+        sessionId: entry.sessionId,
+        costUsd: 0,
+        runs: 0,
+        lastRunAt: 0,
+      };
+      session.costUsd += entry.costUsd;
+      if (!entry.kind) session.runs++;
+      session.lastRunAt = Math.max(session.lastRunAt, entry.timestamp);
+      bySession.set(entry.sessionId, session);
+    }
+  }
+
+  return {
+    todayUsd,
+    weekUsd,
+    totalUsd,
+    days: Array.from(byDay.values()),
+    sessions: Array.from(bySession.values()).sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
@@ -0,0 +1,74 @@
+import { createJsonStore } from "./store";
+
+// A named system prompt that sessions in a project can use
+export interface PromptPreset {
+  id: string;
+  name: string;
+  // Replaces Claude Code's default system prompt (`--system-prompt`)
+  systemPrompt?: string;
+  // Added after the default system prompt (`--append-system-prompt`)
+  appendSystemPrompt?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PresetInput = Pick<PromptPreset, "name" | "systemPrompt" | "appendSystemPrompt">;
+
+// Presets keyed by project directory
+const store = createJsonStore<Record<string, PromptPreset[]>>("presets.json", () => ({}));
+
+export async function listPresets(cwd: string): Promise<PromptPreset[]> {
+  const all = await store.read();
+  return all[cwd] || [];
+}
+
+export async function getPreset(cwd: string, id: string): Promise<PromptPreset | undefined> {
+  return (await listPresets(cwd)).find((preset) => preset.id === id);
+}
+
+// Drop empty prompts so they don't turn into empty CLI flags
+function clean(input: PresetInput): PresetInput {
+  return {
+    name: input.name.trim(),
+    systemPrompt: input.systemPrompt?.trim() || undefined,
+    appendSystemPrompt: input.appendSystemPrompt?.trim() || undefined,
+  };
+}
+
+export async function createPreset(cwd: string, input: PresetInput): Promise<PromptPreset> {
+  const now = Date.now();
+  const preset: PromptPreset = { id: crypto.randomUUID(), ...clean(input), createdAt: now, updatedAt: now };
+  await store.update((all) => {
+    all[cwd] = [...(all[cwd] || []), preset];
+  });
+  return preset;
+}
+
+export async function updatePreset(cwd: string, id: string, input: PresetInput): Promise<PromptPreset | undefined> {
+  let updated: PromptPreset | undefined;
+  await store.update((all) => {
+    all[cwd] = (all[cwd] || []).map((preset) => {
+      if (preset.id !== id) return preset;
+      updated = { ...preset, ...clean(input), updatedAt: Date.now() };
+      return updated;
+    });
+  });
+  return updated;
+}
+
+export async function deletePreset(cwd: string, id: string): Promise<boolean> {
+  let found = false;
+  await store.update((all) => {
+    const presets = all[cwd] || [];
+    found = presets.some((preset) => preset.id === id);
+    all[cwd] = presets.filter((preset) => preset.id !== id);
+  });
+  return found;
+}
+
+export function presetArgs(preset?: PromptPreset): string[] {
+  const args: string[] = [];
+  if (preset?.systemPrompt) args.push("--system-prompt", preset.systemPrompt);
+  if (preset?.appendSystemPrompt) args.push("--append-system-prompt", preset.appendSystemPrompt);
+  return args;
+}
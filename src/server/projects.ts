@@ -0,0 +1,79 @@
+import path from "path";
+import { realpath, stat } from "fs/promises";
+import { createJsonStore } from "./store";
+
+// A directory Claude can work in. Every API request is scoped to one, picked with
+// the X-Project-Id header (or ?project= where headers can't be set).
+export interface Project {
+  id: string;
+  name: string;
+  path: string;
+  createdAt: number;
+}
+
+export const DEFAULT_PROJECT_ID = "default";
+
+// CLAUDE_CWD (or where the server was started) is always available as the default project
+const DEFAULT_CWD = process.env.CLAUDE_CWD || process.cwd();
+
+export const defaultProject: Project = {
+  id: DEFAULT_PROJECT_ID,
+  name: path.basename(DEFAULT_CWD) || DEFAULT_CWD,
+  path: DEFAULT_CWD,
+  createdAt: 0,
+};
+
+const store = createJsonStore<Project[]>("projects.json", () => []);
+
+export async function listProjects(): Promise<Project[]> {
+  const projects = await store.read();
+  return [defaultProject, ...projects.filter((project) => project.path !== defaultProject.path)];
+}
+
+export async function getProject(id: string): Promise<Project | undefined> {
+  return (await listProjects()).find((project) => project.id === id);
+}
+
+export async function createProject(input: { name?: string; path: string }): Promise<Project | { error: string }> {
+  let resolved: string;
+  try {
+    resolved = await realpath(path.resolve(input.path.replace(/^~(?=\/|$)/, process.env.HOME || "~")));
+    if (!(await stat(resolved)).isDirectory()) return { error: `${input.path} is not a directory` };
+  } catch {
+    return { error: `${input.path} does not exist` };
+  }
+
+  const existing = (await listProjects()).find((project) => project.path === resolved);
+  if (existing) return { error: `${resolved} is already the project "${existing.name}"` };
+
+  const project: Project = {
+    id: crypto.randomUUID(),
+    name: input.name?.trim() || path.basename(resolved),
+    path: resolved,
+    createdAt: Date.now(),
+  };
+  await store.update((projects) => [...projects, project]);
+  return project;
+}
+
+export async function renameProject(id: string, name: string): Promise<Project | undefined> {
+  let updated: Project | undefined;
+  await store.update((projects) =>
+    projects.map((project) => {
+      if (project.id !== id) return project;
+      updated = { ...project, name: name.trim() };
+      return updated;
+    })
+  );
+  return updated;
+}
+
+// Only forgets the directory; sessions and settings for it stay where they are
+export async function deleteProject(id: string): Promise<boolean> {
+  let found = false;
+  await store.update((projects) => {
+    found = projects.some((project) => project.id === id);
+    return projects.filter((project) => project.id !== id);
+  });
+  return found;
+}
@@ -0,0 +1,82 @@
+import { broadcast } from "./events";
+
+// Follow-up messages waiting for the session's current run to finish
+export interface QueuedMessage {
+  id: string;
+  sessionId: string;
+  // Project directory the session belongs to
+  cwd: string;
+  message: string;
+  permissionMode?: string;
+  model?: string;
+  presetId?: string;
+  toolProfileId?: string;
+  maxTurns?: number;
+  timeLimitMs?: number;
+  // Upload IDs of attached images
+  attachments?: string[];
+  createdAt: number;
+}
+
+const queues = new Map<string, QueuedMessage[]>();
+
+export function getQueue(sessionId: string): QueuedMessage[] {
+  return queues.get(sessionId) || [];
+}
+
+function setQueue(sessionId: string, items: QueuedMessage[]) {
+  if (items.length > 0) {
+    queues.set(sessionId, items);
+  } else {
+    queues.delete(sessionId);
+  }
+  broadcast({ type: "queue_updated", sessionId, queue: items });
+}
+
+export function enqueueMessage(
+  item: Omit<QueuedMessage, "id" | "createdAt">,
+  options: { front?: boolean } = {}
+): QueuedMessage {
+  const queued: QueuedMessage = { ...item, id: crypto.randomUUID(), createdAt: Date.now() };
+  const current = getQueue(item.sessionId);
+  setQueue(item.sessionId, options.front ? [queued, ...current] : [...current, queued]);
+  return queued;
+}
+
+export function findQueuedMessage(id: string): QueuedMessage | undefined {
+  for (const items of queues.values()) {
+    const found = items.find((item) => item.id === id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function removeQueuedMessage(id: string): boolean {
+  const item = findQueuedMessage(id);
+  if (!item) return false;
+  setQueue(item.sessionId, getQueue(item.sessionId).filter((i) => i.id !== id));
+  return true;
+}
+
+export function moveToFront(id: string): boolean {
+  const item = findQueuedMessage(id);
+  if (!item) return false;
+  setQueue(item.sessionId, [item, ...getQueue(item.sessionId).filter((i) => i.id !== id)]);
+  return true;
+}
+
+// Reorder a session's queue. `ids` must list each queued message exactly once.
+export function reorderQueue(sessionId: string, ids: string[]): QueuedMessage[] | { error: string } {
+  const current = getQueue(sessionId);
+  const byId = new Map(current.map((item) => [item.id, item]));
+  if (new Set(ids).size !== ids.length) return { error: "A queued message is listed more than once" };
+  if (ids.length !== current.length || !ids.every((id) => byId.has(id))) {
+    return { error: "The new order must list every queued message of the session" };
+  }
+  setQueue(sessionId, ids.map((id) => byId.get(id)!));
+  return getQueue(sessionId);
+}
+
+export function queuedSessionIds(): string[] {
+  return Array.from(queues.keys());
+}
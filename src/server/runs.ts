@@ -0,0 +1,571 @@
+import type { Subprocess } from "bun";
+import { broadcast } from "./events";
+import { classifyError, type RunErrorCode } from "./errors";
+
+// How long a finished run stays around so a reconnecting browser can fetch its result
+const FINISHED_RUN_TTL_MS = 10 * 60 * 1000;
+
+// Cap on claude processes running at once, across all sessions
+export const MAX_CONCURRENT_RUNS = Number(process.env.CLAUDE_MAX_CONCURRENT_RUNS) || 4;
+
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+export interface StreamMessage {
+  type: string;
+  subtype?: string;
+  session_id?: string;
+  parent_tool_use_id?: string | null;
+  message?: {
+    id?: string;
+    model?: string;
+    usage?: TokenUsage;
+    content?: Array<{
+      type: string;
+      text?: string;
+      thinking?: string;
+    }>;
+  };
+  result?: string;
+  is_error?: boolean;
+  total_cost_usd?: number;
+  duration_ms?: number;
+  num_turns?: number;
+  usage?: TokenUsage;
+}
+
+// Cost and token usage from claude's final "result" event
+export interface RunUsage {
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+type ClaudeProcess = Subprocess<"ignore" | Blob, "pipe", "pipe">;
+
+export type RunStatus = "running" | "completed" | "failed" | "aborted";
+
+// Why a run ended: on its own, at one of its limits, or by request/failure
+export type RunStopReason = "completed" | "max_turns" | "time_limit" | "budget" | "aborted" | "error";
+
+export interface RunResult {
+  success: boolean;
+  aborted?: boolean;
+  error?: string;
+  // Category of a failure, see errors.ts
+  code?: RunErrorCode;
+  stopReason?: RunStopReason;
+  thinking?: string[];
+  response?: string;
+  sessionId?: string;
+  usage?: RunUsage;
+  toolProfile?: string;
+}
+
+interface RunListener {
+  onLine(line: string): void;
+  onDone(result: RunResult): void;
+}
+
+export interface Run {
+  requestId: string;
+  sessionId?: string;
+  // Whether the run continued an existing session rather than starting one
+  resumed: boolean;
+  message: string;
+  cwd: string;
+  // Name of the tool profile the run is limited to
+  toolProfile?: string;
+  status: RunStatus;
+  startedAt: number;
+  finishedAt?: number;
+  // ID and model of the last assistant message, used to tie usage to the transcript
+  lastMessageId?: string;
+  model?: string;
+  usage?: RunUsage;
+  // Subtype and text of claude's final "result" event
+  resultSubtype?: string;
+  resultText?: string;
+  resultIsError?: boolean;
+  // Every complete stream-json line claude has written so far, replayed on re-attach
+  events: string[];
+  // Partial deltas of the message claude is writing, until it arrives whole
+  partialEvents: string[];
+  result?: RunResult;
+  proc?: ClaudeProcess;
+  aborted: boolean;
+  // Why the server stopped the run, when it wasn't the user
+  abortReason?: string;
+  stopReason?: RunStopReason;
+  // Kills the run once its time limit is up
+  deadline?: ReturnType<typeof setTimeout>;
+  listeners: Set<RunListener>;
+}
+
+export interface RunSummary {
+  requestId: string;
+  sessionId?: string;
+  message: string;
+  status: RunStatus;
+  startedAt: number;
+  finishedAt?: number;
+  toolProfile?: string;
+}
+
+export interface StartRunOptions {
+  requestId: string;
+  message: string;
+  sessionId?: string;
+  args: string[];
+  cwd: string;
+  // Where claude runs when it isn't the project directory, e.g. the session's worktree
+  workDir?: string;
+  toolProfile?: string;
+  // Wall-clock limit, after which the process is killed
+  timeLimitMs?: number;
+  // Written to claude's stdin, for `--input-format stream-json`
+  stdin?: string;
+  // Called once the session ID is known (immediately when resuming)
+  onSessionId?: (sessionId: string) => void;
+  // Called for every parsed stream-json line
+  onEvent?: (run: Run, event: StreamMessage) => void;
+}
+
+const runs = new Map<string, Run>();
+// sessionId -> requestId of the run holding it; one claude process per transcript
+const sessionLocks = new Map<string, string>();
+const finishedHooks = new Set<(run: Run) => void>();
+
+// Called after any run ends, e.g. to start the session's next queued message
+export function onRunFinished(hook: (run: Run) => void) {
+  finishedHooks.add(hook);
+}
+
+// The run currently holding a session, if any
+export function getActiveRun(sessionId: string): Run | undefined {
+  const requestId = sessionLocks.get(sessionId);
+  return requestId ? runs.get(requestId) : undefined;
+}
+
+export function countRunningRuns(): number {
+  let count = 0;
+  for (const run of runs.values()) {
+    if (run.status === "running") count++;
+  }
+  return count;
+}
+
+export interface RunRejection {
+  code: "session_busy" | "too_many_runs";
+  error: string;
+}
+
+// Check whether a run may start now; callers must check before startRun
+export function checkRunAllowed(sessionId?: string): RunRejection | null {
+  if (sessionId && sessionLocks.has(sessionId)) {
+    return {
+      code: "session_busy",
+      error: "Claude is already working in this session. Wait for it to finish or queue your message.",
+    };
+  }
+  if (countRunningRuns() >= MAX_CONCURRENT_RUNS) {
+    return {
+      code: "too_many_runs",
+      error: `Too many Claude runs in progress (limit ${MAX_CONCURRENT_RUNS}). Try again when one finishes.`,
+    };
+  }
+  return null;
+}
+
+export function parseStreamOutput(output: string): { thinking: string[]; response: string; sessionId?: string } {
+  const lines = output.trim().split("\n");
+  const thinking: string[] = [];
+  let response = "";
+  let sessionId: string | undefined;
+
+  for (const line of lines) {
+    try {
+      const parsed: StreamMessage = JSON.parse(line);
+
+      if (parsed.session_id && !sessionId) {
+        sessionId = parsed.session_id;
+      }
+
+      // Ignore subagent (Task) output, it isn't part of the main conversation
+      if (parsed.parent_tool_use_id) continue;
+
+      if (parsed.type === "assistant" && parsed.message?.content) {
+        for (const block of parsed.message.content) {
+          if (block.type === "thinking" && block.thinking) {
+            thinking.push(block.thinking);
+          }
+          if (block.type === "text" && block.text) {
+            response += block.text;
+          }
+        }
+      }
+
+      if (parsed.type === "result" && parsed.result) {
+        if (!response) {
+          response = parsed.result;
+        }
+      }
+    } catch {
+      // Skip non-JSON lines
+    }
+  }
+
+  return { thinking, response, sessionId };
+}
+
+// Read a byte stream line by line (used for claude's stream-json stdout)
+async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield line;
+      newline = buffer.indexOf("\n");
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer.trim();
+}
+
+export function parseUsage(result: StreamMessage): RunUsage {
+  return {
+    costUsd: result.total_cost_usd || 0,
+    durationMs: result.duration_ms || 0,
+    numTurns: result.num_turns || 0,
+    inputTokens: result.usage?.input_tokens || 0,
+    outputTokens: result.usage?.output_tokens || 0,
+    cacheReadTokens: result.usage?.cache_read_input_tokens || 0,
+    cacheCreationTokens: result.usage?.cache_creation_input_tokens || 0,
+  };
+}
+
+export function toRunSummary(run: Run): RunSummary {
+  return {
+    requestId: run.requestId,
+    sessionId: run.sessionId,
+    message: run.message,
+    status: run.status,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    toolProfile: run.toolProfile,
+  };
+}
+
+export function getRun(requestId: string): Run | undefined {
+  return runs.get(requestId);
+}
+
+export function listRuns(): Run[] {
+  return Array.from(runs.values()).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+function setSessionId(run: Run, sessionId: string, onSessionId?: (sessionId: string) => void) {
+  if (run.sessionId) return;
+  run.sessionId = sessionId;
+  sessionLocks.set(sessionId, run.requestId);
+  onSessionId?.(sessionId);
+}
+
+function stopReasonFor(run: Run, outcome: RunResult): RunStopReason {
+  if (outcome.aborted) return run.stopReason || "aborted";
+  // The result event says so even when claude exits 0 without flagging an error
+  if (run.resultSubtype === "error_max_turns") return "max_turns";
+  if (outcome.success) return "completed";
+  return outcome.code === "max_turns" ? "max_turns" : "error";
+}
+
+function finishRun(run: Run, outcome: RunResult) {
+  const result: RunResult = {
+    ...outcome,
+    usage: run.usage,
+    toolProfile: run.toolProfile,
+    stopReason: stopReasonFor(run, outcome),
+  };
+  clearTimeout(run.deadline);
+  run.result = result;
+  run.status = result.success ? "completed" : result.aborted ? "aborted" : "failed";
+  run.finishedAt = Date.now();
+  run.proc = undefined;
+  if (run.sessionId && sessionLocks.get(run.sessionId) === run.requestId) {
+    sessionLocks.delete(run.sessionId);
+  }
+
+  broadcast({
+    type: "run_finished",
+    requestId: run.requestId,
+    sessionId: run.sessionId,
+    success: result.success,
+    aborted: result.aborted,
+    code: result.code,
+  });
+
+  for (const listener of run.listeners) {
+    listener.onDone(result);
+  }
+  run.listeners.clear();
+
+  for (const hook of finishedHooks) {
+    try {
+      hook(run);
+    } catch (error) {
+      console.error("Run finished hook failed:", error);
+    }
+  }
+
+  setTimeout(() => runs.delete(run.requestId), FINISHED_RUN_TTL_MS);
+}
+
+// Replay only needs complete messages. Partial deltas are kept just until the
+// message they build up arrives whole, so long runs don't pile them up.
+function bufferEvent(run: Run, line: string, event: StreamMessage) {
+  if (event.type === "stream_event") {
+    // Subagent output isn't shown, so its deltas are never needed
+    if (!event.parent_tool_use_id) run.partialEvents.push(line);
+    return;
+  }
+  if (event.type === "assistant" && !event.parent_tool_use_id) run.partialEvents = [];
+  run.events.push(line);
+}
+
+// Spawn claude and track it independently of the HTTP request that started it
+export function startRun(options: StartRunOptions): Run {
+  const { requestId, message, sessionId, args, cwd, workDir, toolProfile, timeLimitMs, stdin, onSessionId, onEvent } =
+    options;
+
+  const run: Run = {
+    requestId,
+    resumed: !!sessionId,
+    message,
+    cwd,
+    toolProfile,
+    status: "running",
+    startedAt: Date.now(),
+    events: [],
+    partialEvents: [],
+    aborted: false,
+    listeners: new Set(),
+  };
+  runs.set(requestId, run);
+  if (sessionId) setSessionId(run, sessionId, onSessionId);
+
+  const execute = async () => {
+    let proc: ClaudeProcess;
+    try {
+      proc = Bun.spawn(["claude", ...args], {
+        cwd: workDir ?? cwd,
+        stdin: stdin ? new Blob([stdin]) : "ignore",
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+    } catch (error) {
+      console.error("Chat error:", error);
+      finishRun(run, { success: false, ...classifyError({ spawnError: error }) });
+      return;
+    }
+
+    run.proc = proc;
+    broadcast({ type: "run_started", requestId, sessionId: run.sessionId });
+
+    if (timeLimitMs) {
+      run.deadline = setTimeout(() => {
+        const limit =
+          timeLimitMs < 60000
+            ? `${Math.round(timeLimitMs / 1000)} second`
+            : `${Math.round(timeLimitMs / 6000) / 10} minute`;
+        abortRun(requestId, `Stopped at the ${limit} time limit`, "time_limit");
+      }, timeLimitMs);
+    }
+
+    const stderrPromise = new Response(proc.stderr).text();
+
+    for await (const line of readLines(proc.stdout)) {
+      for (const listener of run.listeners) {
+        listener.onLine(line);
+      }
+
+      let parsed: StreamMessage;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        // Not stream-json; kept since it may explain a failure
+        run.events.push(line);
+        continue;
+      }
+      bufferEvent(run, line, parsed);
+
+      try {
+        if (parsed.session_id) {
+          setSessionId(run, parsed.session_id, onSessionId);
+        }
+        if (parsed.type === "assistant" && !parsed.parent_tool_use_id && parsed.message?.id) {
+          run.lastMessageId = parsed.message.id;
+          run.model = parsed.message.model;
+        }
+        if (parsed.type === "result") {
+          run.usage = parseUsage(parsed);
+          run.resultSubtype = parsed.subtype;
+          run.resultText = parsed.result;
+          run.resultIsError = parsed.is_error;
+        }
+        onEvent?.(run, parsed);
+        // Share complete messages with other browsers viewing this session
+        if (
+          run.sessionId &&
+          (parsed.type === "assistant" || parsed.type === "user") &&
+          !parsed.parent_tool_use_id
+        ) {
+          broadcast({ type: "session_message", requestId, sessionId: run.sessionId, event: parsed });
+        }
+      } catch (error) {
+        console.error("Failed to handle a claude event:", error);
+      }
+    }
+
+    const stderr = await stderrPromise;
+    await proc.exited;
+    const output = run.events.join("\n");
+
+    if (run.aborted) {
+      finishRun(run, {
+        success: false,
+        aborted: true,
+        error: run.abortReason || "Request aborted",
+      });
+      return;
+    }
+
+    // claude can also report a failed turn in its result event and still exit 0
+    if (proc.exitCode !== 0 || run.resultIsError) {
+      console.error("Claude failed with exit code:", proc.exitCode, proc.signalCode || "");
+      console.error("stderr:", stderr);
+      console.error("stdout:", output);
+      const failure = classifyError({
+        exitCode: proc.exitCode,
+        signalCode: proc.signalCode,
+        stderr,
+        resultSubtype: run.resultSubtype,
+        resultText: run.resultText,
+        output,
+      });
+      finishRun(run, { success: false, ...failure });
+      return;
+    }
+
+    const { thinking, response, sessionId: resultSessionId } = parseStreamOutput(output);
+
+    console.log("Claude succeeded, response length:", response.length);
+    if (!response) {
+      console.log("Empty response, raw output:", output.slice(0, 500));
+    }
+
+    finishRun(run, {
+      success: true,
+      thinking,
+      response,
+      sessionId: resultSessionId || run.sessionId,
+    });
+  };
+
+  execute().catch((error) => {
+    console.error("Chat error:", error);
+    finishRun(run, {
+      success: false,
+      code: "unknown",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  });
+
+  return run;
+}
+
+export function abortRun(requestId: string, reason?: string, stopReason: RunStopReason = "aborted"): boolean {
+  const run = runs.get(requestId);
+  if (!run || run.status !== "running") return false;
+  run.aborted = true;
+  run.abortReason = reason;
+  run.stopReason = stopReason;
+  run.proc?.kill();
+  return true;
+}
+
+const encoder = new TextEncoder();
+
+// Format a single Server-Sent Event frame
+function sseFrame(data: string, event?: string): Uint8Array {
+  const eventLine = event ? `event: ${event}\n` : "";
+  return encoder.encode(`${eventLine}data: ${data}\n\n`);
+}
+
+// Stream a run as Server-Sent Events: every buffered stream-json line as a
+// "message" event, then live lines, then a single "done" event with the result.
+// Disconnecting only detaches the listener - the run keeps going.
+export function runEventStream(run: Run): Response {
+  let listener: RunListener | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (data: string, event?: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(sseFrame(data, event));
+        } catch {
+          closed = true;
+        }
+      };
+      const done = (result: RunResult) => {
+        send(JSON.stringify(result), "done");
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      };
+
+      send(JSON.stringify(toRunSummary(run)), "run");
+      for (const line of [...run.events, ...run.partialEvents]) {
+        send(line);
+      }
+
+      if (run.result) {
+        done(run.result);
+        return;
+      }
+
+      listener = { onLine: (line) => send(line), onDone: done };
+      run.listeners.add(listener);
+    },
+    cancel() {
+      if (listener) run.listeners.delete(listener);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
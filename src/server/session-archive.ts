@@ -0,0 +1,85 @@
+import path from "path";
+import { copyFile, mkdir, rename, rm, unlink } from "fs/promises";
+import { DATA_DIR } from "./store";
+import { listTranscripts, type SessionSummary } from "./sessions";
+import { deleteSessionMeta, getSessionMeta, listSessionMeta, updateSessionMeta, type SessionMeta } from "./session-meta";
+
+// Archived and deleted transcripts move out of ~/.claude, so neither the
+// sessions list nor `claude --resume` sees them. Deleted ones can be restored
+// for TRASH_RETENTION_MS, then they're gone for good.
+export type RemovedState = "archived" | "trash";
+export type RemovedInfo = NonNullable<SessionMeta["removed"]>;
+
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const REMOVED_DIRS: Record<RemovedState, string> = {
+  archived: path.join(DATA_DIR, "archive"),
+  trash: path.join(DATA_DIR, "trash"),
+};
+
+const removedPath = (state: RemovedState, sessionId: string) => path.join(REMOVED_DIRS[state], `${sessionId}.jsonl`);
+
+// rename() can't move across filesystems, and DATA_DIR may be on another one
+async function moveFile(from: string, to: string) {
+  await mkdir(path.dirname(to), { recursive: true });
+  try {
+    await rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    await copyFile(from, to);
+    await unlink(from);
+  }
+}
+
+// Move a session's transcript (at `transcript` unless it was removed before) to
+// the archive or the trash. Null when there is no such transcript.
+export async function removeSession(
+  sessionId: string,
+  transcript: string,
+  state: RemovedState
+): Promise<RemovedInfo | { error: string } | null> {
+  const meta = await getSessionMeta(sessionId);
+  if (meta.removed?.state === state) {
+    return { error: state === "archived" ? "The session is already archived" : "The session is already in the trash" };
+  }
+
+  // Deleting an archived session keeps where it originally lived, for restoring
+  const from = meta.removed ? removedPath(meta.removed.state, sessionId) : transcript;
+  if (!(await Bun.file(from).exists())) return null;
+
+  await moveFile(from, removedPath(state, sessionId));
+  const removed: RemovedInfo = { state, at: Date.now(), from: meta.removed?.from ?? transcript };
+  await updateSessionMeta(sessionId, { removed });
+  return removed;
+}
+
+// Put an archived or deleted transcript back where it was
+export async function restoreSession(sessionId: string): Promise<{ path: string } | { error: string }> {
+  const { removed } = await getSessionMeta(sessionId);
+  if (!removed) return { error: "The session isn't archived or in the trash" };
+  if (await Bun.file(removed.from).exists()) {
+    return { error: "Another transcript already exists where this session used to be" };
+  }
+
+  await moveFile(removedPath(removed.state, sessionId), removed.from);
+  await updateSessionMeta(sessionId, { removed: undefined });
+  return { path: removed.from };
+}
+
+export async function listRemovedSessions(state: RemovedState): Promise<Array<SessionSummary & { removed: RemovedInfo }>> {
+  const [transcripts, meta] = await Promise.all([listTranscripts(REMOVED_DIRS[state]), listSessionMeta()]);
+  return transcripts.flatMap((session) => {
+    const removed = meta[session.id]?.removed;
+    return removed?.state === state ? [{ ...session, removed }] : [];
+  });
+}
+
+// Delete trashed transcripts, and what we know about them, once they're past the retention period
+export async function purgeTrash() {
+  const cutoff = Date.now() - TRASH_RETENTION_MS;
+  for (const [sessionId, meta] of Object.entries(await listSessionMeta())) {
+    if (meta.removed?.state !== "trash" || meta.removed.at > cutoff) continue;
+    await rm(removedPath("trash", sessionId), { force: true });
+    await deleteSessionMeta(sessionId);
+  }
+}
@@ -0,0 +1,53 @@
+import { createJsonStore } from "./store";
+
+// Our own per-session settings, kept apart from Claude's JSONL transcripts
+export interface SessionMeta {
+  // Set by the user; the sessions list falls back to the generated title, then the first prompt
+  title?: string;
+  // Written after the first exchange, see titles.ts
+  generatedTitle?: string;
+  tags?: string[];
+  // Listed above the other sessions
+  pinned?: boolean;
+  // When we first saw the session
+  createdAt?: number;
+  model?: string;
+  permissionMode?: string;
+  // Prompt preset used on every turn, see presets.ts
+  presetId?: string;
+  // Directories passed to claude with --add-dir, see directories.ts
+  additionalDirs?: string[];
+  // Session and message this one was forked from
+  forkedFrom?: { sessionId: string; messageUuid: string };
+  // Set while the transcript is archived or in the trash, see session-archive.ts
+  removed?: { state: "archived" | "trash"; at: number; from: string };
+}
+
+const store = createJsonStore<Record<string, SessionMeta>>("sessions.json", () => ({}));
+
+export async function getSessionMeta(sessionId: string): Promise<SessionMeta> {
+  const all = await store.read();
+  return all[sessionId] || {};
+}
+
+export async function listSessionMeta(): Promise<Record<string, SessionMeta>> {
+  return store.read();
+}
+
+// Trimmed, without blanks or duplicates
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))];
+}
+
+export async function deleteSessionMeta(sessionId: string) {
+  await store.update((data) => {
+    delete data[sessionId];
+  });
+}
+
+export async function updateSessionMeta(sessionId: string, patch: Partial<SessionMeta>): Promise<SessionMeta> {
+  const all = await store.update((data) => {
+    data[sessionId] = { createdAt: Date.now(), ...data[sessionId], ...patch };
+  });
+  return all[sessionId] || {};
+}
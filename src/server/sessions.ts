@@ -0,0 +1,145 @@
+// Claude's own JSONL transcripts, kept per project directory under ~/.claude/projects
+
+export interface SessionSummary {
+  id: string;
+  modified: number;
+  preview: string;
+  // Branch of the worktree the session runs in, if it has one
+  branch?: string;
+}
+
+// claude names the folder after the path with every non-alphanumeric character
+// turned into "-", so "/home/me/.claude-code-chat" becomes "-home-me--claude-code-chat"
+export function sessionsDir(cwd: string): string {
+  const encodedPath = cwd.replace(/[^a-zA-Z0-9]/g, "-");
+  return `${process.env.HOME}/.claude/projects/${encodedPath}`;
+}
+
+// Session IDs are UUIDs. Routes check this before an ID can end up in a file path.
+export const SESSION_ID_PATTERN = "^[0-9a-fA-F-]{36}$";
+
+export function sessionFilePath(cwd: string, sessionId: string): string {
+  return `${sessionsDir(cwd)}/${sessionId}.jsonl`;
+}
+
+// First user message of a transcript, skipping command and system tags
+function findPreview(content: string): string {
+  for (const line of content.trim().split("\n")) {
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed.type !== "user" || !parsed.message?.content) continue;
+      const msgContent = parsed.message.content;
+      if (typeof msgContent === "string" && !msgContent.startsWith("<")) {
+        return msgContent.slice(0, 100);
+      } else if (Array.isArray(msgContent)) {
+        for (const block of msgContent) {
+          if (block.type === "text" && block.text && !block.text.startsWith("<")) {
+            return block.text.slice(0, 100);
+          }
+        }
+      }
+    } catch {
+      // Skip invalid lines
+    }
+  }
+  return "";
+}
+
+// Newest first
+export async function listSessions(cwd: string): Promise<SessionSummary[]> {
+  return listTranscripts(sessionsDir(cwd));
+}
+
+// Every transcript in a directory, newest first
+export async function listTranscripts(dir: string): Promise<SessionSummary[]> {
+  const sessions: SessionSummary[] = [];
+
+  try {
+    for await (const file of new Bun.Glob("*.jsonl").scan({ cwd: dir })) {
+      const filePath = `${dir}/${file}`;
+      const stat = await Bun.file(filePath).stat();
+
+      let preview = "";
+      try {
+        preview = findPreview(await Bun.file(filePath).text());
+      } catch {
+        // Couldn't read file
+      }
+
+      sessions.push({
+        id: file.replace(".jsonl", ""),
+        modified: stat?.mtime?.getTime() || 0,
+        preview: preview || "New conversation",
+      });
+    }
+  } catch {
+    // No transcripts in this directory yet
+  }
+
+  return sessions.sort((a, b) => b.modified - a.modified);
+}
+
+// The fields of a transcript line that forking looks at
+interface TranscriptLine {
+  uuid?: string;
+  parentUuid?: string | null;
+  type?: string;
+  cwd?: string;
+  message?: { content?: unknown };
+}
+
+// A user line that starts a turn: typed text rather than a tool result
+function isPrompt(line: TranscriptLine): boolean {
+  if (line.type !== "user") return false;
+  const content = line.message?.content;
+  return (
+    typeof content === "string" ||
+    (Array.isArray(content) && !content.some((block) => block?.type === "tool_result"))
+  );
+}
+
+// Copy a transcript into a new session that ends with the turn containing
+// messageUuid: the message, everything it follows from, and the tool calls
+// that finish its turn. The copy lives in `cwd`, so it can be resumed there.
+export async function forkSession(
+  sourceFile: string,
+  cwd: string,
+  messageUuid: string
+): Promise<{ sessionId: string } | { error: string }> {
+  let content: string;
+  try {
+    content = await Bun.file(sourceFile).text();
+  } catch {
+    return { error: "Session not found" };
+  }
+
+  const lines: TranscriptLine[] = [];
+  for (const raw of content.split("\n")) {
+    try {
+      if (raw.trim()) lines.push(JSON.parse(raw));
+    } catch {
+      // Skip invalid lines
+    }
+  }
+
+  const byUuid = new Map(lines.filter((line) => line.uuid).map((line) => [line.uuid!, line]));
+  const target = byUuid.get(messageUuid);
+  if (!target) return { error: "Message not found in this session" };
+
+  // Walk back to the start of the conversation (this skips branches from earlier rewinds)
+  const keep = new Set<string>();
+  for (let line: TranscriptLine | undefined = target; line?.uuid; line = byUuid.get(line.parentUuid ?? "")) {
+    keep.add(line.uuid);
+  }
+  // Then forward to the end of the turn
+  for (const line of lines.slice(lines.indexOf(target) + 1)) {
+    if (line.uuid && line.parentUuid && keep.has(line.parentUuid) && !isPrompt(line)) keep.add(line.uuid);
+  }
+
+  const sessionId = crypto.randomUUID();
+  const copied = lines
+    .filter((line) => line.uuid && keep.has(line.uuid))
+    .map((line) => JSON.stringify({ ...line, sessionId, ...(line.cwd && { cwd }) }));
+  await Bun.write(sessionFilePath(cwd, sessionId), copied.join("\n") + "\n");
+  return { sessionId };
+}
@@ -0,0 +1,46 @@
+import path from "path";
+import { mkdir } from "fs/promises";
+
+// Where the chat server keeps its own state (never inside ~/.claude)
+export const DATA_DIR =
+  process.env.CLAUDE_CHAT_DATA_DIR || path.join(process.env.HOME || ".", ".claude-code-chat");
+
+export interface JsonStore<T> {
+  read(): Promise<T>;
+  update(fn: (data: T) => T | void): Promise<T>;
+}
+
+// A JSON file with serialized read-modify-write updates
+export function createJsonStore<T>(fileName: string, fallback: () => T): JsonStore<T> {
+  const filePath = path.join(DATA_DIR, fileName);
+  let cache: T | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<T> => {
+    if (cache) return cache;
+    try {
+      cache = JSON.parse(await Bun.file(filePath).text()) as T;
+    } catch {
+      // Missing or invalid file, start fresh
+      cache = fallback();
+    }
+    return cache;
+  };
+
+  return {
+    read: load,
+    update(fn) {
+      const next = queue.then(async () => {
+        const data = await load();
+        const result = fn(data);
+        const updated = result === undefined ? data : result;
+        cache = updated;
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await Bun.write(filePath, JSON.stringify(updated, null, 2));
+        return updated;
+      });
+      queue = next.catch(() => {});
+      return next;
+    },
+  };
+}
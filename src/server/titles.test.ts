@@ -0,0 +1,54 @@
+import { afterAll, expect, test } from "bun:test";
+import os from "os";
+import path from "path";
+import { mkdtemp, rm } from "fs/promises";
+
+// The store reads its directory on import, so point it somewhere disposable first
+const dataDir = await mkdtemp(path.join(os.tmpdir(), "claude-chat-titles-"));
+process.env.CLAUDE_CHAT_DATA_DIR = dataDir;
+const { setTitleGenerator, titleSession } = await import("./titles");
+const { getSessionMeta, updateSessionMeta } = await import("./session-meta");
+const { readLedger } = await import("./ledger");
+
+afterAll(() => rm(dataDir, { recursive: true, force: true }));
+
+const usage = {
+  costUsd: 0.001,
+  durationMs: 10,
+  numTurns: 1,
+  inputTokens: 20,
+  outputTokens: 4,
+  cacheReadTokens: 0,
+  cacheCreationTokens: 0,
+};
+
+test("stores the generated title and bills the call to the session", async () => {
+  const exchanges: string[] = [];
+  setTitleGenerator(async ({ prompt }) => {
+    exchanges.push(prompt);
+    return { title: "Fix the login form", usage };
+  });
+
+  const sessionId = crypto.randomUUID();
+  await titleSession(sessionId, "/tmp/project", { prompt: "The login form is broken", reply: "Let me look." });
+
+  expect(exchanges).toEqual(["The login form is broken"]);
+  expect((await getSessionMeta(sessionId)).generatedTitle).toBe("Fix the login form");
+  const [entry] = await readLedger({ sessionId });
+  expect(entry).toMatchObject({ kind: "title", cwd: "/tmp/project", costUsd: 0.001 });
+});
+
+test("leaves sessions the user already named alone", async () => {
+  let calls = 0;
+  setTitleGenerator(async () => {
+    calls++;
+    return { title: "Generated" };
+  });
+
+  const sessionId = crypto.randomUUID();
+  await updateSessionMeta(sessionId, { title: "My name" });
+  await titleSession(sessionId, "/tmp/project", { prompt: "Hi", reply: "Hello" });
+
+  expect(calls).toBe(0);
+  expect((await getSessionMeta(sessionId)).generatedTitle).toBeUndefined();
+});
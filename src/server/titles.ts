@@ -0,0 +1,106 @@
+import os from "os";
+import { getBudgetStatus } from "./budgets";
+import { runCommand } from "./command";
+import { broadcast } from "./events";
+import { recordSideCall } from "./ledger";
+import { parseUsage, type RunUsage, type StreamMessage } from "./runs";
+import { getSessionMeta, updateSessionMeta } from "./session-meta";
+
+// Short session titles, written by a quick one-off claude call after a session's first exchange.
+// The call is billed to the session like a run, and skipped once a budget is used up.
+const TITLE_MODEL = "haiku";
+const TITLE_TIMEOUT_MS = 30_000;
+const TITLE_MAX_LENGTH = 80;
+
+export interface Exchange {
+  prompt: string;
+  reply: string;
+}
+
+export interface TitleResult {
+  // Null when it couldn't come up with one
+  title: string | null;
+  // What the call cost, for the ledger
+  usage?: RunUsage;
+}
+
+export type TitleGenerator = (exchange: Exchange) => Promise<TitleResult>;
+
+const titlePrompt = ({ prompt, reply }: Exchange) =>
+  [
+    "Write a title of at most six words for the conversation below.",
+    "Reply with the title only: no quotes, no trailing period.",
+    "",
+    `User: ${prompt.slice(0, 2000)}`,
+    "",
+    `Assistant: ${reply.slice(0, 1000)}`,
+  ].join("\n");
+
+// First line, without the quotes and punctuation models like to add
+function cleanTitle(output: string): string | null {
+  const line = output.trim().split("\n")[0] ?? "";
+  const title = line
+    .replace(/^(title:\s*)/i, "")
+    .replace(/^["'`*]+|["'`*.]+$/g, "")
+    .trim();
+  return title ? title.slice(0, TITLE_MAX_LENGTH) : null;
+}
+
+// The fast model with no tools, outside any project, and without saving a transcript
+export const claudeTitleGenerator: TitleGenerator = async (exchange) => {
+  const result = await runCommand(
+    [
+      "claude",
+      "-p",
+      titlePrompt(exchange),
+      "--model",
+      TITLE_MODEL,
+      "--tools",
+      "",
+      "--max-turns",
+      "1",
+      "--no-session-persistence",
+      "--output-format",
+      "json",
+    ],
+    { cwd: os.tmpdir(), timeoutMs: TITLE_TIMEOUT_MS, stderr: true }
+  );
+  if (!result.ok) throw new Error(result.stderr.trim() || `claude exited with ${result.exitCode}`);
+  const output: StreamMessage = JSON.parse(result.stdout);
+  return { title: output.is_error ? null : cleanTitle(output.result || ""), usage: parseUsage(output) };
+};
+
+let generator: TitleGenerator = claudeTitleGenerator;
+
+// Swap the generator, e.g. for a deterministic one in tests
+export function setTitleGenerator(next: TitleGenerator) {
+  generator = next;
+}
+
+// One attempt per session; failures leave the preview as the title
+const attempted = new Set<string>();
+
+// Called with the exchange that started the session
+export async function titleSession(sessionId: string, cwd: string, exchange: Exchange): Promise<void> {
+  if (attempted.has(sessionId)) return;
+  attempted.add(sessionId);
+
+  const meta = await getSessionMeta(sessionId);
+  if (meta.title || meta.generatedTitle) return;
+  if ((await getBudgetStatus(cwd, sessionId)).some((status) => status.state === "exceeded")) return;
+
+  let result: TitleResult;
+  try {
+    result = await generator(exchange);
+  } catch (error) {
+    console.error(`Failed to generate a title for session ${sessionId}:`, error);
+    return;
+  }
+  if (result.usage) await recordSideCall({ kind: "title", sessionId, cwd, model: TITLE_MODEL, usage: result.usage });
+
+  const { title } = result;
+  if (!title) return;
+
+  await updateSessionMeta(sessionId, { generatedTitle: title });
+  broadcast({ type: "session_titled", sessionId, title });
+}
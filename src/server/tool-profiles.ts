@@ -0,0 +1,104 @@
+import { createJsonStore } from "./store";
+
+// Limits which tools Claude may use for a message. `--allowedTools` only
+// auto-approves tools, so a profile's allowed tools are also the only ones
+// available (`--tools`), with no MCP servers loaded.
+export interface ToolProfile {
+  id: string;
+  name: string;
+  // When set, the only tools Claude has; they run without asking
+  allowedTools: string[];
+  disallowedTools: string[];
+  // Shipped with the app and not editable
+  builtIn?: boolean;
+}
+
+export type ToolProfileInput = Pick<ToolProfile, "name" | "allowedTools" | "disallowedTools">;
+
+const NETWORK_TOOLS = ["WebFetch", "WebSearch"];
+
+export const BUILT_IN_PROFILES: ToolProfile[] = [
+  {
+    id: "read-only",
+    name: "Read-only",
+    allowedTools: ["Read", "Grep", "Glob"],
+    disallowedTools: [],
+    builtIn: true,
+  },
+  {
+    id: "no-network",
+    name: "No network",
+    allowedTools: [],
+    disallowedTools: NETWORK_TOOLS,
+    builtIn: true,
+  },
+];
+
+// Custom profiles keyed by project directory
+const store = createJsonStore<Record<string, ToolProfile[]>>("tool-profiles.json", () => ({}));
+
+export async function listToolProfiles(cwd: string): Promise<ToolProfile[]> {
+  const all = await store.read();
+  return [...BUILT_IN_PROFILES, ...(all[cwd] || [])];
+}
+
+export async function getToolProfile(cwd: string, id: string): Promise<ToolProfile | undefined> {
+  return (await listToolProfiles(cwd)).find((profile) => profile.id === id);
+}
+
+function clean(input: ToolProfileInput): ToolProfileInput {
+  const tools = (list: string[]) => Array.from(new Set(list.map((tool) => tool.trim()).filter(Boolean)));
+  return {
+    name: input.name.trim(),
+    allowedTools: tools(input.allowedTools),
+    disallowedTools: tools(input.disallowedTools),
+  };
+}
+
+export async function createToolProfile(cwd: string, input: ToolProfileInput): Promise<ToolProfile> {
+  const profile: ToolProfile = { id: crypto.randomUUID(), ...clean(input) };
+  await store.update((all) => {
+    all[cwd] = [...(all[cwd] || []), profile];
+  });
+  return profile;
+}
+
+export async function updateToolProfile(
+  cwd: string,
+  id: string,
+  input: ToolProfileInput
+): Promise<ToolProfile | undefined> {
+  let updated: ToolProfile | undefined;
+  await store.update((all) => {
+    all[cwd] = (all[cwd] || []).map((profile) => {
+      if (profile.id !== id) return profile;
+      updated = { ...profile, ...clean(input) };
+      return updated;
+    });
+  });
+  return updated;
+}
+
+export async function deleteToolProfile(cwd: string, id: string): Promise<boolean> {
+  let found = false;
+  await store.update((all) => {
+    const profiles = all[cwd] || [];
+    found = profiles.some((profile) => profile.id === id);
+    all[cwd] = profiles.filter((profile) => profile.id !== id);
+  });
+  return found;
+}
+
+// "Bash(git diff:*)" is the Bash tool, limited to some commands
+const toolName = (rule: string) => rule.replace(/\(.*$/, "").trim();
+
+export function toolProfileArgs(profile?: ToolProfile): string[] {
+  const args: string[] = [];
+  if (profile?.allowedTools.length) {
+    const available = Array.from(new Set(profile.allowedTools.map(toolName)));
+    args.push("--tools", available.join(","), "--strict-mcp-config");
+    args.push("--allowedTools", profile.allowedTools.join(","));
+  }
+  if (profile?.disallowedTools.length) args.push("--disallowedTools", profile.disallowedTools.join(","));
+  return args;
+}
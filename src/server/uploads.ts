@@ -0,0 +1,94 @@
+import path from "path";
+import { mkdir, rename } from "fs/promises";
+import { DATA_DIR } from "./store";
+
+// Images attached to chat messages, stored per session under DATA_DIR/uploads
+const UPLOAD_DIR = path.join(DATA_DIR, "uploads");
+
+// The API rejects larger images
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+const MEDIA_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(IMAGE_TYPES).map(([mediaType, ext]) => [ext, mediaType])
+);
+
+export interface Upload {
+  // "<session folder>/<file name>", used to attach the image to a message
+  id: string;
+  url: string;
+  name: string;
+  mediaType: string;
+  size: number;
+}
+
+const ID_PATTERN = /^[\w-]+\/[\w-]+\.(png|jpg|gif|webp)$/;
+const FOLDER_PATTERN = /^[\w-]+$/;
+
+// Images picked before a new session has an ID wait here until it gets one
+const NEW_FOLDER = "new";
+
+// Uploads moved out of "new", so the IDs and URLs handed out before keep working
+const movedUploads = new Map<string, string>();
+
+export async function saveUpload(file: File, sessionId?: string): Promise<Upload | { error: string }> {
+  const ext = IMAGE_TYPES[file.type];
+  if (!ext) return { error: `Unsupported image type "${file.type}". Use PNG, JPEG, GIF or WebP.` };
+  if (file.size > MAX_IMAGE_BYTES) {
+    return { error: `${file.name} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB` };
+  }
+
+  const folder = sessionId && FOLDER_PATTERN.test(sessionId) ? sessionId : NEW_FOLDER;
+  const id = `${folder}/${crypto.randomUUID()}.${ext}`;
+  await mkdir(path.join(UPLOAD_DIR, folder), { recursive: true });
+  await Bun.write(path.join(UPLOAD_DIR, id), file);
+
+  return { id, url: `/api/uploads/${id}`, name: file.name, mediaType: file.type, size: file.size };
+}
+
+export function resolveUpload(id: string): { filePath: string; mediaType: string } | null {
+  if (!ID_PATTERN.test(id)) return null;
+  const ext = id.slice(id.lastIndexOf(".") + 1);
+  const filePath = path.join(UPLOAD_DIR, movedUploads.get(id) ?? id);
+  return { filePath, mediaType: MEDIA_TYPES[ext] || "application/octet-stream" };
+}
+
+// Move a message's images out of "new" once its session has an ID
+export async function claimUploads(uploadIds: string[], sessionId: string): Promise<void> {
+  if (!FOLDER_PATTERN.test(sessionId)) return;
+  for (const id of uploadIds) {
+    if (!ID_PATTERN.test(id) || !id.startsWith(`${NEW_FOLDER}/`) || movedUploads.has(id)) continue;
+    const movedId = `${sessionId}/${id.slice(NEW_FOLDER.length + 1)}`;
+    await mkdir(path.join(UPLOAD_DIR, sessionId), { recursive: true });
+    await rename(path.join(UPLOAD_DIR, id), path.join(UPLOAD_DIR, movedId));
+    movedUploads.set(id, movedId);
+  }
+}
+
+// A stream-json user message (for `--input-format stream-json`) with the
+// images followed by the text
+export async function buildImageMessage(message: string, uploadIds: string[]): Promise<string | { error: string }> {
+  const content: Array<Record<string, unknown>> = [];
+  for (const id of uploadIds) {
+    const upload = resolveUpload(id);
+    const file = upload && Bun.file(upload.filePath);
+    if (!upload || !file || !(await file.exists())) return { error: `Attachment ${id} not found` };
+    content.push({
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: upload.mediaType,
+        data: Buffer.from(await file.arrayBuffer()).toString("base64"),
+      },
+    });
+  }
+  if (message.trim()) content.push({ type: "text", text: message });
+
+  return JSON.stringify({ type: "user", message: { role: "user", content } }) + "\n";
+}
@@ -0,0 +1,151 @@
+import path from "path";
+import { mkdir, rm } from "fs/promises";
+import { runCommand } from "./command";
+import { createJsonStore, DATA_DIR } from "./store";
+
+// Sessions can run in their own `git worktree` on a fresh branch, so two
+// sessions editing the same repository don't step on each other
+const WORKTREE_DIR = path.join(DATA_DIR, "worktrees");
+const GIT_TIMEOUT_MS = 30_000;
+
+export type WorktreeStatus = "active" | "merged" | "kept" | "deleted";
+
+export interface Worktree {
+  id: string;
+  // Set once claude reports the new session's ID
+  sessionId?: string;
+  // The project repository the worktree was made from
+  cwd: string;
+  path: string;
+  branch: string;
+  // Branch the project had checked out when the worktree was made; merges go there
+  baseBranch: string;
+  status: WorktreeStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const store = createJsonStore<Record<string, Worktree>>("worktrees.json", () => ({}));
+
+async function git(args: string[], cwd: string): Promise<{ ok: boolean; output: string }> {
+  const { ok, stdout, stderr } = await runCommand(["git", ...args], { cwd, timeoutMs: GIT_TIMEOUT_MS, stderr: true });
+  return { ok, output: (ok ? stdout : stderr || stdout).trim() };
+}
+
+async function save(worktree: Worktree, patch: Partial<Worktree>): Promise<Worktree> {
+  const updated = { ...worktree, ...patch, updatedAt: Date.now() };
+  await store.update((all) => {
+    all[worktree.id] = updated;
+  });
+  return updated;
+}
+
+export async function listWorktrees(cwd: string): Promise<Worktree[]> {
+  const all = await store.read();
+  return Object.values(all)
+    .filter((worktree) => worktree.cwd === cwd)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getSessionWorktree(sessionId?: string): Promise<Worktree | undefined> {
+  if (!sessionId) return undefined;
+  const all = await store.read();
+  return Object.values(all).find((worktree) => worktree.sessionId === sessionId);
+}
+
+// A new worktree on branch claude/<id>, branched from whatever the project has checked out
+export async function createWorktree(cwd: string): Promise<Worktree | { error: string }> {
+  const head = await git(["rev-parse", "--abbrev-ref", "HEAD"], cwd);
+  if (!head.ok) return { error: `${cwd} is not a git repository` };
+
+  const id = crypto.randomUUID().slice(0, 8);
+  const worktreePath = path.join(WORKTREE_DIR, `${path.basename(cwd)}-${id}`);
+  const branch = `claude/${id}`;
+
+  await mkdir(WORKTREE_DIR, { recursive: true });
+  const added = await git(["worktree", "add", "-b", branch, worktreePath, "HEAD"], cwd);
+  if (!added.ok) return { error: `Couldn't create a worktree: ${added.output}` };
+
+  const now = Date.now();
+  const worktree: Worktree = {
+    id,
+    cwd,
+    path: worktreePath,
+    branch,
+    baseBranch: head.output,
+    status: "active",
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.update((all) => {
+    all[id] = worktree;
+  });
+  return worktree;
+}
+
+export async function attachSession(worktree: Worktree, sessionId: string): Promise<Worktree> {
+  return save(worktree, { sessionId });
+}
+
+// Commit whatever claude left uncommitted, so merging or keeping the branch loses nothing
+async function commitPending(worktree: Worktree): Promise<{ error: string } | null> {
+  const status = await git(["status", "--porcelain"], worktree.path);
+  if (!status.ok) return { error: `Couldn't read the worktree: ${status.output}` };
+  if (!status.output) return null;
+
+  await git(["add", "-A"], worktree.path);
+  const commit = await git(["commit", "-m", `Changes from session ${worktree.sessionId || worktree.id}`], worktree.path);
+  return commit.ok ? null : { error: `Couldn't commit the worktree's changes: ${commit.output}` };
+}
+
+// Remove the worktree's directory and branch
+async function removeCheckout(worktree: Worktree) {
+  const removed = await git(["worktree", "remove", "--force", worktree.path], worktree.cwd);
+  if (!removed.ok) {
+    // Already gone from disk; drop git's record of it
+    await rm(worktree.path, { recursive: true, force: true });
+    await git(["worktree", "prune"], worktree.cwd);
+  }
+  await git(["branch", "-D", worktree.branch], worktree.cwd);
+}
+
+// Merge the session's branch into the base branch, then remove the worktree and branch
+export async function mergeWorktree(worktree: Worktree): Promise<Worktree | { error: string }> {
+  const pending = await commitPending(worktree);
+  if (pending) return pending;
+
+  const head = await git(["rev-parse", "--abbrev-ref", "HEAD"], worktree.cwd);
+  if (head.output !== worktree.baseBranch) {
+    return { error: `The project has ${head.output} checked out; switch it back to ${worktree.baseBranch} to merge` };
+  }
+
+  const merged = await git(["merge", "--no-edit", worktree.branch], worktree.cwd);
+  if (!merged.ok) {
+    await git(["merge", "--abort"], worktree.cwd);
+    return { error: `Merge failed, nothing was changed: ${merged.output}` };
+  }
+
+  await removeCheckout(worktree);
+  return save(worktree, { status: "merged" });
+}
+
+// Leave the worktree and its branch in place, with any changes committed
+export async function keepWorktree(worktree: Worktree): Promise<Worktree | { error: string }> {
+  const pending = await commitPending(worktree);
+  if (pending) return pending;
+  return save(worktree, { status: "kept" });
+}
+
+// Throw away the worktree, its branch and every change on it
+export async function deleteWorktree(worktree: Worktree): Promise<Worktree> {
+  await removeCheckout(worktree);
+  return save(worktree, { status: "deleted" });
+}
+
+// Undo createWorktree when the run it was made for never started
+export async function discardWorktree(worktree: Worktree) {
+  await removeCheckout(worktree);
+  await store.update((all) => {
+    delete all[worktree.id];
+  });
+}